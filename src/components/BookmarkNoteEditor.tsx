@@ -0,0 +1,62 @@
+import { ReactNode, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Textarea } from '@/components/ui/textarea';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+
+interface BookmarkNoteEditorProps {
+  note: string;
+  onSave: (note: string) => void;
+  // The element that opens the editor
+  children: ReactNode;
+  align?: 'start' | 'center' | 'end';
+}
+
+/**
+ * Popover for writing a bookmark's note. Edits are only kept when saved;
+ * Ctrl/Cmd+Enter saves.
+ */
+export function BookmarkNoteEditor({ note, onSave, children, align = 'end' }: BookmarkNoteEditorProps) {
+  const [open, setOpen] = useState(false);
+  const [draft, setDraft] = useState(note);
+
+  const handleOpenChange = (open: boolean) => {
+    if (open) setDraft(note);
+    setOpen(open);
+  };
+
+  const handleSave = () => {
+    onSave(draft.trim());
+    setOpen(false);
+  };
+
+  return (
+    <Popover open={open} onOpenChange={handleOpenChange}>
+      <PopoverTrigger asChild>
+        {children}
+      </PopoverTrigger>
+      <PopoverContent align={align} className="w-[320px] space-y-2">
+        <Textarea
+          value={draft}
+          onChange={e => setDraft(e.target.value)}
+          onKeyDown={e => {
+            if (e.key === 'Enter' && (e.ctrlKey || e.metaKey)) {
+              e.preventDefault();
+              handleSave();
+            }
+          }}
+          placeholder="Add a note"
+          className="text-xs"
+          autoFocus
+        />
+        <div className="flex justify-end gap-2">
+          <Button variant="ghost" size="sm" className="h-7 px-2 text-xs" onClick={() => setOpen(false)}>
+            Cancel
+          </Button>
+          <Button size="sm" className="h-7 px-2 text-xs" onClick={handleSave}>
+            Save note
+          </Button>
+        </div>
+      </PopoverContent>
+    </Popover>
+  );
+}
@@ -0,0 +1,119 @@
+import { Bookmark, Crosshair, StickyNote, Trash2 } from 'lucide-react';
+import { LogBookmark } from '@/types/log';
+import { cn } from '@/lib/utils';
+import { sortBookmarks } from '@/lib/bookmarks';
+import { getLevelBadgeClassName } from '@/lib/logLevels';
+import { Button } from '@/components/ui/button';
+import { BookmarkNoteEditor } from '@/components/BookmarkNoteEditor';
+import {
+  Sheet,
+  SheetClose,
+  SheetContent,
+  SheetDescription,
+  SheetHeader,
+  SheetTitle,
+  SheetTrigger,
+} from '@/components/ui/sheet';
+
+interface BookmarksPanelProps {
+  bookmarks: LogBookmark[];
+  onJump: (bookmark: LogBookmark) => void;
+  onNoteChange: (logId: string, note: string) => void;
+  onRemove: (logId: string) => void;
+}
+
+const formatTime = (time: string) =>
+  new Date(time).toLocaleTimeString('en-US', { hour12: false });
+
+/**
+ * The session's bookmarked logs and their notes, in the order they were
+ * logged, behind a toolbar button showing how many there are.
+ */
+export function BookmarksPanel({ bookmarks, onJump, onNoteChange, onRemove }: BookmarksPanelProps) {
+  return (
+    <Sheet>
+      <SheetTrigger asChild>
+        <Button variant="ghost" size="sm" className="h-8 px-2" title="Bookmarks">
+          <Bookmark size={16} className={cn(bookmarks.length > 0 && "fill-current")} />
+          {bookmarks.length > 0 && (
+            <span className="ml-1 text-xs tabular-nums">{bookmarks.length.toLocaleString()}</span>
+          )}
+          <span className="sr-only">Bookmarks</span>
+        </Button>
+      </SheetTrigger>
+      <SheetContent className="dark flex flex-col">
+        <SheetHeader>
+          <SheetTitle>Bookmarks</SheetTitle>
+          <SheetDescription>
+            Bookmarked logs are saved with the session, even after they leave the log buffer.
+          </SheetDescription>
+        </SheetHeader>
+
+        {bookmarks.length === 0 ? (
+          <p className="text-sm text-muted-foreground">
+            Bookmark a log with the bookmark button on its row, or select rows and bookmark them together.
+          </p>
+        ) : (
+          <div className="flex-1 min-h-0 -mx-2 overflow-y-auto scrollbar-thin divide-y">
+            {sortBookmarks(bookmarks).map(bookmark => {
+              const { log, note } = bookmark;
+
+              return (
+                <div key={log.id} className="px-2 py-2 space-y-1">
+                  <div className="flex items-center gap-2 text-xs">
+                    <span className="font-mono text-muted-foreground">{formatTime(log.time)}</span>
+                    <span className={cn("font-medium px-1.5 py-0.5 rounded-full text-[10px]", getLevelBadgeClassName(log.level))}>
+                      {log.level}
+                    </span>
+                    <span className="truncate font-mono text-[10px] text-muted-foreground" title={log.name}>
+                      {log.name}
+                    </span>
+                    <div className="ml-auto flex items-center">
+                      <SheetClose asChild>
+                        <Button
+                          variant="ghost"
+                          size="icon"
+                          className="h-6 w-6 text-muted-foreground hover:text-foreground"
+                          onClick={() => onJump(bookmark)}
+                          title="Show in the log list"
+                        >
+                          <Crosshair size={14} />
+                          <span className="sr-only">Jump to log</span>
+                        </Button>
+                      </SheetClose>
+                      <BookmarkNoteEditor note={note} onSave={note => onNoteChange(log.id, note)}>
+                        <Button
+                          variant="ghost"
+                          size="icon"
+                          className="h-6 w-6 text-muted-foreground hover:text-foreground"
+                          title={note ? 'Edit note' : 'Add a note'}
+                        >
+                          <StickyNote size={14} />
+                          <span className="sr-only">Edit note</span>
+                        </Button>
+                      </BookmarkNoteEditor>
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        className="h-6 w-6 text-muted-foreground hover:text-destructive"
+                        onClick={() => onRemove(log.id)}
+                        title="Remove bookmark"
+                      >
+                        <Trash2 size={14} />
+                        <span className="sr-only">Remove bookmark</span>
+                      </Button>
+                    </div>
+                  </div>
+                  <p className="text-xs font-mono line-clamp-2 break-all">{log.message}</p>
+                  {note && (
+                    <p className="text-xs text-muted-foreground whitespace-pre-wrap">{note}</p>
+                  )}
+                </div>
+              );
+            })}
+          </div>
+        )}
+      </SheetContent>
+    </Sheet>
+  );
+}
@@ -0,0 +1,124 @@
+import { useEffect, useState } from 'react';
+import { Activity } from 'lucide-react';
+import { cn } from '@/lib/utils';
+import { formatBytes } from '@/lib/connectionHealth';
+import { Button } from '@/components/ui/button';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import { ConnectionDiagnostics, ConnectionStatus, HealthCheckConfig } from '@/types/log';
+
+interface ConnectionDiagnosticsPanelProps {
+  status: ConnectionStatus;
+  diagnostics: ConnectionDiagnostics;
+  health: HealthCheckConfig;
+  // Whether the session's transport can carry pings
+  canPing: boolean;
+  malformedCount: number;
+}
+
+function formatAge(ms: number) {
+  const seconds = Math.floor(ms / 1000);
+  if (seconds < 60) return `${seconds}s ago`;
+  if (seconds < 3600) return `${Math.floor(seconds / 60)}m ${seconds % 60}s ago`;
+  return `${Math.floor(seconds / 3600)}h ${Math.floor(seconds / 60) % 60}m ago`;
+}
+
+function Metric({ label, value, className }: { label: string; value: string; className?: string }) {
+  return (
+    <div className="flex items-baseline justify-between gap-4 text-xs">
+      <span className="text-muted-foreground">{label}</span>
+      <span className={cn("font-mono tabular-nums", className)}>{value}</span>
+    </div>
+  );
+}
+
+/**
+ * Throughput, latency and reconnect history for the active session's
+ * connection, behind a toolbar button that turns amber when it goes stale.
+ */
+export function ConnectionDiagnosticsPanel({
+  status,
+  diagnostics,
+  health,
+  canPing,
+  malformedCount
+}: ConnectionDiagnosticsPanelProps) {
+  const [open, setOpen] = useState(false);
+  const [now, setNow] = useState(Date.now);
+  const { messagesPerSecond, bytesPerSecond, lastMessageAt, latencyMs, isStale, closes, duplicateCount } = diagnostics;
+
+  // Keep "last message" ticking while the panel is open
+  useEffect(() => {
+    if (!open) return;
+
+    setNow(Date.now());
+    const timer = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(timer);
+  }, [open]);
+
+  let latency = 'Off';
+  if (!canPing) {
+    latency = 'Not supported by transport';
+  } else if (health.pingIntervalSeconds !== null) {
+    latency = latencyMs !== null ? `${latencyMs} ms` : 'Waiting for pong';
+  }
+
+  return (
+    <Popover open={open} onOpenChange={setOpen}>
+      <PopoverTrigger asChild>
+        <Button
+          variant="ghost"
+          size="sm"
+          className={cn("h-8 px-2", isStale && "text-log-warning")}
+          title={isStale ? 'No logs received recently' : 'Connection diagnostics'}
+        >
+          <Activity size={16} />
+          <span className="sr-only">Connection diagnostics</span>
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent align="end" className="w-[320px] p-0">
+        <div className="px-3 py-2 border-b text-xs font-medium">
+          Connection diagnostics
+        </div>
+        <div className="px-3 py-2 space-y-1.5">
+          <Metric
+            label="Status"
+            value={status === 'connected' && isStale ? 'stale' : status}
+            className={cn(isStale && "text-log-warning")}
+          />
+          <Metric label="Messages/sec" value={messagesPerSecond.toFixed(1)} />
+          <Metric label="Throughput" value={`${formatBytes(bytesPerSecond)}/s`} />
+          <Metric label="Last message" value={lastMessageAt !== null ? formatAge(now - lastMessageAt) : 'Never'} />
+          <Metric
+            label="Stale after"
+            value={health.staleAfterSeconds !== null ? `${health.staleAfterSeconds}s` : 'Off'}
+          />
+          <Metric label="Latency" value={latency} />
+          <Metric
+            label="Parse failures"
+            value={malformedCount.toLocaleString()}
+            className={cn(malformedCount > 0 && "text-log-error")}
+          />
+          <Metric label="Duplicates dropped" value={duplicateCount.toLocaleString()} />
+        </div>
+        <div className="px-3 py-2 border-t text-xs font-medium">
+          Disconnects
+        </div>
+        <div className="max-h-[200px] overflow-y-auto scrollbar-thin divide-y">
+          {closes.length === 0 ? (
+            <div className="px-3 pb-2 text-xs text-muted-foreground">None since the page loaded</div>
+          ) : closes.map(close => (
+            <div key={close.at} className="px-3 py-1.5 flex items-baseline justify-between gap-2 text-xs">
+              <span className="truncate" title={close.message}>
+                {close.code !== undefined && <span className="font-mono mr-1">{close.code}</span>}
+                {close.message ?? (close.code === undefined ? 'Closed' : '')}
+              </span>
+              <span className="font-mono text-[10px] text-muted-foreground whitespace-nowrap">
+                {new Date(close.at).toLocaleTimeString('en-US', { hour12: false })}
+              </span>
+            </div>
+          ))}
+        </div>
+      </PopoverContent>
+    </Popover>
+  );
+}
@@ -0,0 +1,213 @@
+import { useMemo, useState } from 'react';
+import { LogBookmark, LogMessage } from '@/types/log';
+import {
+  BOOKMARK_EXPORT_COLUMNS,
+  CORE_EXPORT_COLUMNS,
+  EXPORT_FORMATS,
+  ExportFormat,
+  exportLogs
+} from '@/lib/logExport';
+import { sortBookmarks } from '@/lib/bookmarks';
+import { toast } from '@/hooks/use-toast';
+import { Button } from '@/components/ui/button';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Input } from '@/components/ui/input';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+
+type ExportScope = 'filtered' | 'selected' | 'bookmarked' | 'range';
+
+interface ExportDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  // The filtered logs, newest first
+  logs: LogMessage[];
+  // Selected rows, newest first; offered as what to export when there are any
+  selectedLogs?: LogMessage[];
+  bookmarks?: LogBookmark[];
+  extraFields: string[];
+  sessionName: string;
+}
+
+// `datetime-local` inputs hold local time without a zone
+const parseLocalTime = (value: string) => value ? new Date(value).getTime() : NaN;
+
+export function ExportDialog({
+  open,
+  onOpenChange,
+  logs,
+  selectedLogs = [],
+  bookmarks = [],
+  extraFields,
+  sessionName
+}: ExportDialogProps) {
+  const [format, setFormat] = useState<ExportFormat>('jsonl');
+  const [columns, setColumns] = useState<string[]>(CORE_EXPORT_COLUMNS);
+  const [scope, setScope] = useState<ExportScope>(selectedLogs.length > 0 ? 'selected' : 'filtered');
+  const [from, setFrom] = useState('');
+  const [to, setTo] = useState('');
+  const [exported, setExported] = useState<number | null>(null);
+
+  // Oldest first, the order log files are read in
+  const exportedLogs = useMemo(() => {
+    if (scope === 'selected') return selectedLogs.slice().reverse();
+    // Bookmarks keep their logs, so these may include ones no longer shown
+    if (scope === 'bookmarked') return sortBookmarks(bookmarks).map(bookmark => bookmark.log);
+
+    const chronological = logs.slice().reverse();
+    if (scope === 'filtered') return chronological;
+
+    const start = parseLocalTime(from);
+    const end = parseLocalTime(to);
+    return chronological.filter(log => {
+      const time = Date.parse(log.time);
+      return (isNaN(start) || time >= start) && (isNaN(end) || time <= end);
+    });
+  }, [logs, selectedLogs, bookmarks, scope, from, to]);
+
+  const bookmarksByKey = useMemo(
+    () => new Map(bookmarks.map(bookmark => [bookmark.log.id, bookmark])),
+    [bookmarks]
+  );
+  const availableColumns = [
+    ...CORE_EXPORT_COLUMNS,
+    ...(bookmarks.length > 0 ? BOOKMARK_EXPORT_COLUMNS : []),
+    ...extraFields
+  ];
+
+  const toggleColumn = (column: string, checked: boolean) => {
+    setColumns(prev => availableColumns.filter(name => name === column ? checked : prev.includes(name)));
+  };
+
+  const handleExport = async () => {
+    setExported(0);
+    try {
+      const baseName = `${sessionName.replace(/[^\w.-]+/g, '_')}-${new Date().toISOString().replace(/[:.]/g, '-')}`;
+      await exportLogs(exportedLogs, { format, columns, bookmarks: bookmarksByKey }, baseName, setExported);
+      onOpenChange(false);
+    } catch (error) {
+      // Dismissing the save dialog isn't a failure
+      if ((error as Error).name !== 'AbortError') {
+        console.error('Export failed:', error);
+        toast({ title: 'Export failed', description: (error as Error).message, variant: 'destructive' });
+      }
+    } finally {
+      setExported(null);
+    }
+  };
+
+  const isExporting = exported !== null;
+
+  return (
+    <Dialog open={open} onOpenChange={isExporting ? undefined : onOpenChange}>
+      <DialogContent className="dark sm:max-w-[480px] max-h-[90vh] overflow-y-auto scrollbar-thin">
+        <DialogHeader>
+          <DialogTitle>Export Logs</DialogTitle>
+          <DialogDescription>
+            Writes the logs that pass the current filters and search, oldest first. Bookmarked logs carry their notes.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <span className="text-sm font-medium">Format</span>
+              <Select value={format} onValueChange={value => setFormat(value as ExportFormat)}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent className="dark">
+                  {EXPORT_FORMATS.map(({ format, label }) => (
+                    <SelectItem key={format} value={format}>{label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <span className="text-sm font-medium">Logs</span>
+              <Select value={scope} onValueChange={value => setScope(value as ExportScope)}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent className="dark">
+                  <SelectItem value="filtered">All filtered logs</SelectItem>
+                  {selectedLogs.length > 0 && (
+                    <SelectItem value="selected">Selected logs</SelectItem>
+                  )}
+                  {bookmarks.length > 0 && (
+                    <SelectItem value="bookmarked">Bookmarked logs</SelectItem>
+                  )}
+                  <SelectItem value="range">Time range</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+
+          {scope === 'range' && (
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <span className="text-sm font-medium">From</span>
+                <Input type="datetime-local" step={1} value={from} onChange={e => setFrom(e.target.value)} />
+              </div>
+              <div className="space-y-2">
+                <span className="text-sm font-medium">To</span>
+                <Input type="datetime-local" step={1} value={to} onChange={e => setTo(e.target.value)} />
+              </div>
+            </div>
+          )}
+
+          {format === 'csv' && (
+            <div className="space-y-2">
+              <span className="text-sm font-medium">Columns</span>
+              <div className="grid grid-cols-3 gap-x-4 gap-y-2 max-h-[160px] overflow-y-auto scrollbar-thin">
+                {availableColumns.map(column => (
+                  <div key={column} className="flex items-center space-x-2 min-w-0">
+                    <Checkbox
+                      id={`export-column-${column}`}
+                      checked={columns.includes(column)}
+                      onCheckedChange={checked => toggleColumn(column, checked === true)}
+                    />
+                    <label htmlFor={`export-column-${column}`} className="text-sm leading-none truncate font-mono">
+                      {column}
+                    </label>
+                  </div>
+                ))}
+              </div>
+            </div>
+          )}
+        </div>
+
+        <DialogFooter className="items-center">
+          <span className="mr-auto text-xs text-muted-foreground tabular-nums">
+            {isExporting
+              ? `Exported ${exported.toLocaleString()} of ${exportedLogs.length.toLocaleString()}`
+              : `${exportedLogs.length.toLocaleString()} logs`}
+          </span>
+          <Button type="button" variant="outline" disabled={isExporting} onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button
+            type="button"
+            disabled={isExporting || exportedLogs.length === 0 || (format === 'csv' && columns.length === 0)}
+            onClick={handleExport}
+          >
+            Export
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
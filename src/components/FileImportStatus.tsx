@@ -0,0 +1,57 @@
+import { FileText, Loader } from 'lucide-react';
+import { cn } from '@/lib/utils';
+import { formatBytes } from '@/lib/connectionHealth';
+import { FileImportState, ImportedFile } from '@/types/log';
+import { Button } from '@/components/ui/button';
+
+interface FileImportStatusProps {
+  file: ImportedFile;
+  // Missing until the import has started
+  state?: FileImportState;
+  onCancel?: () => void;
+  className?: string;
+}
+
+/**
+ * Stands in for the connection status on sessions showing an imported file.
+ */
+export function FileImportStatus({ file, state, onCancel, className }: FileImportStatusProps) {
+  const percent = state && state.totalBytes > 0 ? Math.floor((state.bytesRead / state.totalBytes) * 100) : 100;
+
+  return (
+    <div className={cn("flex items-center gap-2", className)}>
+      {state?.status === 'importing'
+        ? <Loader size={16} className="text-log-warning animate-spin" />
+        : <FileText size={16} className={state?.status === 'failed' ? 'text-log-error' : 'text-muted-foreground'} />}
+      <div className="flex flex-col">
+        <span className="text-sm font-medium" title={file.name}>
+          {file.name}
+          <span className="ml-1 text-xs font-normal text-muted-foreground tabular-nums">
+            {state?.status === 'importing' && `— importing, ${percent}% of ${formatBytes(file.size)}`}
+            {state?.status === 'done' && `— ${state.logCount.toLocaleString()} logs from ${formatBytes(file.size)}`}
+            {state?.status === 'cancelled' && '— import cancelled'}
+            {state?.status === 'failed' && '— import failed'}
+          </span>
+        </span>
+        {state?.status === 'failed' && state.error && (
+          <span className="text-xs text-log-error/80">{state.error}</span>
+        )}
+        {state && state.malformedCount > 0 && (
+          <span className="text-xs text-log-error/80">
+            {state.malformedCount.toLocaleString()} lines could not be parsed
+          </span>
+        )}
+        {state && state.duplicateCount > 0 && (
+          <span className="text-xs text-muted-foreground">
+            {state.duplicateCount.toLocaleString()} duplicate records skipped
+          </span>
+        )}
+      </div>
+      {state?.status === 'importing' && onCancel && (
+        <Button variant="ghost" size="sm" className="h-7 px-2 text-xs" onClick={onCancel}>
+          Cancel
+        </Button>
+      )}
+    </div>
+  );
+}
@@ -1,13 +1,45 @@
 
-import { useState, useEffect, useRef } from 'react';
-import { useWebSocket } from '@/hooks/useWebSocket';
-import { LogLevelFilter as FilterType, LogMessage, LogLevel, LogSession } from '@/types/log';
-import { LogEntry } from '@/components/LogEntry';
+import { useState, useEffect, useRef, useCallback, useMemo } from 'react';
+import { useSessionConnections } from '@/hooks/useSessionConnections';
+import { useFileImports } from '@/hooks/useFileImports';
+import { useLogSelection } from '@/hooks/useLogSelection';
+import { useLogFilter } from '@/hooks/useLogFilter';
+import {
+  LogBookmark,
+  LogLevelFilter as FilterType,
+  LogMessage,
+  LogSession,
+  ConnectionStatus,
+  SearchOptions
+} from '@/types/log';
+import { LogList, LogListHandle } from '@/components/LogList';
+import { SearchBar } from '@/components/SearchBar';
 import { LogLevelFilter } from '@/components/LogLevelFilter';
 import { StatusIndicator } from '@/components/StatusIndicator';
-import { Input } from '@/components/ui/input';
+import { MalformedFramesIndicator } from '@/components/MalformedFramesIndicator';
+import { ConnectionDiagnosticsPanel } from '@/components/ConnectionDiagnosticsPanel';
+import { FileImportStatus } from '@/components/FileImportStatus';
+import { ExportDialog } from '@/components/ExportDialog';
+import { SelectionToolbar } from '@/components/SelectionToolbar';
+import { BookmarksPanel } from '@/components/BookmarksPanel';
+import { SessionConnection } from '@/components/SessionConnection';
+import { SessionSettingsDialog } from '@/components/SessionSettingsDialog';
 import { Button } from '@/components/ui/button';
-import { Filter, Search, X, Pause, Play, PlusCircle, Trash2 } from 'lucide-react';
+import {
+  Filter,
+  Search,
+  Pause,
+  Play,
+  PlusCircle,
+  Trash2,
+  Settings2,
+  ArrowDownToLine,
+  ArrowDownWideNarrow,
+  ArrowUpNarrowWide,
+  FileText,
+  FileUp,
+  Download
+} from 'lucide-react';
 import { Separator } from '@/components/ui/separator';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import {
@@ -16,55 +48,265 @@ import {
   SheetTrigger,
 } from "@/components/ui/sheet";
 import { cn } from '@/lib/utils';
+import { SessionConfig, createSession, defaultSessionConfig, getSessionConfig } from '@/lib/sessions';
+import { resolveTransport } from '@/lib/transports';
+import { ViewOptions, loadSessions, loadViewOptions, saveSessions, saveViewOptions } from '@/lib/sessionStore';
+import { deleteCachedLogs } from '@/lib/logCache';
+import { parseQuery } from '@/lib/logQuery';
+import { collectExtraKeys } from '@/lib/logFields';
+import { IMPORT_FILE_ACCEPT } from '@/lib/fileImport';
+import { addBookmarks, removeBookmark, setBookmarkNote, toggleBookmark } from '@/lib/bookmarks';
+import { LogPermalink, buildLogPermalink, parseLogPermalink } from '@/lib/permalinks';
+import { toast } from '@/hooks/use-toast';
 import { nanoid } from 'nanoid';
 
+// How many of the latest logs are scanned for extra field names
+const EXTRA_FIELD_SAMPLE_SIZE = 1000;
+
+const statusDotColor: Record<ConnectionStatus, string> = {
+  connected: 'bg-log-info',
+  connecting: 'bg-log-warning animate-pulse',
+  disconnected: 'bg-log-error',
+  unauthorized: 'bg-log-error'
+};
+
+// How long a linked log is waited for, to be restored or received, before
+// giving up on it
+const LINKED_LOG_TIMEOUT = 10000;
+
+// A permalink being opened. `sessionOpened` is set once its session has
+// been switched to, and `expired` once it has been waited for long enough.
+interface PendingLink extends LogPermalink {
+  sessionOpened?: boolean;
+  expired?: boolean;
+}
+
+const formatBadgeCount = (count: number) => count > 999 ? '999+' : String(count);
+
+type SessionDialogState =
+  | { mode: 'create'; defaultValues: SessionConfig }
+  | { mode: 'edit'; sessionId: string; defaultValues: SessionConfig };
+
 interface LogDashboardProps {
   websocketUrl?: string;
 }
 
 export function LogDashboard({ websocketUrl = 'ws://localhost:8000/logs/ws/logs' }: LogDashboardProps) {
-  const [searchTerm, setSearchTerm] = useState('');
+  // Sessions (without their logs) are restored from the last visit
+  const [savedSessions] = useState(loadSessions);
   const [showSearch, setShowSearch] = useState(false);
-  const [levelFilters, setLevelFilters] = useState<FilterType>({
-    INFO: true,
-    DEBUG: true,
-    WARNING: true,
-    ERROR: true
-  });
-  const [sessions, setSessions] = useState<LogSession[]>([
-    { id: 'default', name: 'Default', websocketUrl, logs: [] }
+  const [sessions, setSessions] = useState<LogSession[]>(() => savedSessions?.sessions ?? [
+    createSession('default', { ...defaultSessionConfig([], websocketUrl), name: 'Default' })
   ]);
-  const [activeSessionId, setActiveSessionId] = useState('default');
-  const [filteredLogs, setFilteredLogs] = useState<LogMessage[]>([]);
-  const [isPaused, setIsPaused] = useState(false);
-  const [levelCounts, setLevelCounts] = useState<Record<LogLevel, number>>({
-    INFO: 0,
-    DEBUG: 0,
-    WARNING: 0,
-    ERROR: 0
-  });
+  const [sessionDialog, setSessionDialog] = useState<SessionDialogState | null>(null);
+  const [viewOptions, setViewOptions] = useState<ViewOptions>(loadViewOptions);
+  const [activeSessionId, setActiveSessionId] = useState(() => savedSessions?.activeSessionId ?? 'default');
+  const [activeMatchLog, setActiveMatchLog] = useState<LogMessage | null>(null);
+  const [isDraggingFile, setIsDraggingFile] = useState(false);
+  const [showExport, setShowExport] = useState(false);
+  // A log linked to in the URL hash, shown once it has arrived
+  const [linkedLog, setLinkedLog] = useState<PendingLink | null>(() => parseLogPermalink(window.location.hash));
   
   const activeSession = sessions.find(session => session.id === activeSessionId) || sessions[0];
-  
-  const { logs, status, clearLogs, togglePause } = useWebSocket({
-    url: activeSession.websocketUrl,
-    autoShowToasts: false // Disable automatic toast notifications
+  const { levelFilters, searchTerm, searchOptions } = activeSession;
+  // Only recent logs are sampled; enough to find the fields in use
+  const extraFields = useMemo(
+    () => collectExtraKeys(activeSession.logs.slice(0, EXTRA_FIELD_SAMPLE_SIZE)),
+    [activeSession.logs]
+  );
+  const { filteredLogs, matches: newestFirstMatches, levelCounts, highlight, searchError } = useLogFilter({
+    sessionId: activeSession.id,
+    logs: activeSession.logs,
+    levelFilters,
+    searchTerm,
+    searchOptions
   });
+  const queryErrors = useMemo(() => {
+    const { errors } = parseQuery(searchTerm, searchOptions);
+    return searchError ? [...errors, searchError] : errors;
+  }, [searchTerm, searchOptions, searchError]);
+  
+  const { selectedIds, selectedLogs, selectLog, clearSelection } = useLogSelection(activeSession.id, filteredLogs);
+  
+  const { bookmarks } = activeSession;
+  const bookmarksByKey = useMemo(
+    () => new Map(bookmarks.map(bookmark => [bookmark.log.id, bookmark])),
+    [bookmarks]
+  );
+  
+  const {
+    getConnection,
+    registerHandle,
+    handleConnectionChange,
+    handleLogsReceived,
+    clearSession,
+    reconnect,
+    stopRetrying,
+    pause,
+    resume,
+    removeConnection
+  } = useSessionConnections(activeSession.id);
+  const {
+    status,
+    errorMessage,
+    nextRetry,
+    isPaused,
+    bufferedCount,
+    evictedCount,
+    malformedCount,
+    malformedSamples,
+    gaps,
+    diagnostics
+  } = getConnection(activeSession.id);
   
   const searchInputRef = useRef<HTMLInputElement>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const logListRef = useRef<LogListHandle>(null);
   
-  // Update session logs when the websocket logs change
+  const updateSession = useCallback((sessionId: string, update: Partial<LogSession>) => {
+    setSessions(prev => 
+      prev.map(session => 
+        session.id === sessionId 
+          ? { ...session, ...update } 
+          : session
+      )
+    );
+  }, []);
+  
+  const setLevelFilters = (filters: FilterType) => {
+    updateSession(activeSession.id, { levelFilters: filters });
+  };
+  
+  const setSearchTerm = (term: string) => {
+    updateSession(activeSession.id, { searchTerm: term });
+  };
+  
+  // Narrow the search to exactly one logger, keeping whatever else was
+  // searched for
+  const handleFilterToLogger = (name: string) => {
+    const term = `name:=${/[\s"]/.test(name) ? JSON.stringify(name) : name}`;
+    setSearchTerm(searchTerm.trim() ? `${searchTerm.trim()} ${term}` : term);
+    setShowSearch(true);
+  };
+  
+  // Escape clears the row selection
   useEffect(() => {
-    if (logs.length > 0) {
-      setSessions(prev => 
-        prev.map(session => 
-          session.id === activeSessionId 
-            ? { ...session, logs } 
-            : session
-        )
-      );
+    if (selectedLogs.length === 0) return;
+    
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key === 'Escape' && !e.defaultPrevented) {
+        clearSelection();
+      }
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [selectedLogs.length, clearSelection]);
+  
+  const setBookmarks = (update: (bookmarks: LogBookmark[]) => LogBookmark[]) => {
+    updateSession(activeSession.id, { bookmarks: update(bookmarks) });
+  };
+  
+  const handleToggleBookmark = (log: LogMessage) => {
+    setBookmarks(prev => toggleBookmark(prev, log));
+  };
+  
+  const handleBookmarkSelection = () => {
+    setBookmarks(prev => addBookmarks(prev, selectedLogs));
+  };
+  
+  const handleFollowChange = useCallback((follow: boolean) => {
+    setViewOptions(prev => ({ ...prev, follow }));
+  }, []);
+  
+  // Scroll to and mark a row of filteredLogs. Following stops so new logs
+  // don't pull it out of view.
+  const showLog = useCallback((index: number, log: LogMessage) => {
+    handleFollowChange(false);
+    setActiveMatchLog(log);
+    logListRef.current?.scrollToLog(index);
+  }, [handleFollowChange]);
+  
+  // Show a bookmarked log in the list, if it's still there and passes the filters
+  const handleJumpToBookmark = (bookmark: LogBookmark) => {
+    const index = filteredLogs.findIndex(log => log.id === bookmark.log.id);
+    if (index === -1) {
+      toast({
+        description: activeSession.logs.some(log => log.id === bookmark.log.id)
+          ? 'This log is hidden by the current filters'
+          : 'This log is no longer in the session\'s log buffer'
+      });
+      return;
     }
-  }, [logs, activeSessionId]);
+    
+    showLog(index, filteredLogs[index]);
+  };
+  
+  const handleCopyLink = (log: LogMessage) => {
+    navigator.clipboard.writeText(buildLogPermalink(activeSession.id, log.id));
+    toast({
+      description: "Link copied to clipboard"
+    });
+  };
+  
+  useEffect(() => {
+    const handleHashChange = () => setLinkedLog(parseLogPermalink(window.location.hash));
+    window.addEventListener('hashchange', handleHashChange);
+    return () => window.removeEventListener('hashchange', handleHashChange);
+  }, []);
+  
+  // Open a linked log's session (once; leaving it drops the link), then
+  // wait for the log to be restored or received before showing it
+  useEffect(() => {
+    if (!linkedLog) return;
+    
+    const { sessionId, logId, sessionOpened, expired } = linkedLog;
+    if (sessionId && sessionId !== activeSession.id) {
+      if (sessionOpened) {
+        setLinkedLog(null);
+      } else if (sessions.some(session => session.id === sessionId)) {
+        setActiveSessionId(sessionId);
+        setLinkedLog({ ...linkedLog, sessionOpened: true });
+      } else {
+        toast({ description: 'The linked session no longer exists', variant: 'destructive' });
+        setLinkedLog(null);
+      }
+      return;
+    }
+    
+    const index = filteredLogs.findIndex(log => log.id === logId);
+    if (index !== -1) {
+      setLinkedLog(null);
+      showLog(index, filteredLogs[index]);
+    } else if (expired) {
+      toast({
+        description: activeSession.logs.some(log => log.id === logId)
+          ? 'The linked log is hidden by the current filters'
+          : 'Log not found; it may have been evicted or cleared',
+        variant: 'destructive'
+      });
+      setLinkedLog(null);
+    }
+  }, [linkedLog, activeSession.id, activeSession.logs, sessions, filteredLogs, showLog]);
+  
+  useEffect(() => {
+    if (!linkedLog || linkedLog.expired) return;
+    
+    const timeout = window.setTimeout(() => {
+      setLinkedLog(prev => prev && { ...prev, expired: true });
+    }, LINKED_LOG_TIMEOUT);
+    return () => clearTimeout(timeout);
+  }, [linkedLog]);
+  
+  const setSearchOptions = (options: SearchOptions) => {
+    updateSession(activeSession.id, { searchOptions: options });
+  };
+  
+  // Update session logs when a session's streamed logs change
+  const handleLogsChange = useCallback((sessionId: string, logs: LogMessage[]) => {
+    updateSession(sessionId, { logs });
+  }, [updateSession]);
+  
+  const { imports, startImport, cancelImport, removeImport } = useFileImports(handleLogsChange);
   
   // Effect for focusing search input when shown
   useEffect(() => {
@@ -73,56 +315,108 @@ export function LogDashboard({ websocketUrl = 'ws://localhost:8000/logs/ws/logs'
     }
   }, [showSearch]);
   
-  // Handle search and filtering
-  useEffect(() => {
-    const logs = activeSession.logs;
-    
-    const filtered = logs.filter((log) => {
-      const matchesLevel = levelFilters[log.level];
-      const matchesSearch = !searchTerm || 
-        log.message.toLowerCase().includes(searchTerm.toLowerCase()) ||
-        log.name.toLowerCase().includes(searchTerm.toLowerCase()) ||
-        log.function.toLowerCase().includes(searchTerm.toLowerCase());
-      
-      return matchesLevel && matchesSearch;
-    });
-    
-    setFilteredLogs(filtered);
-    
-    // Count logs by level
-    const counts: Record<LogLevel, number> = {
-      INFO: 0,
-      DEBUG: 0,
-      WARNING: 0,
-      ERROR: 0
-    };
-    
-    logs.forEach(log => {
-      counts[log.level]++;
-    });
+  // Indexes into filteredLogs of rows with a search match, in display order
+  const matches = useMemo(() => {
+    return viewOptions.order === 'newest-first' ? newestFirstMatches : newestFirstMatches.slice().reverse();
+  }, [newestFirstMatches, viewOptions.order]);
+  
+  const activeMatch = activeMatchLog
+    ? matches.findIndex(index => filteredLogs[index].id === activeMatchLog.id)
+    : -1;
+  
+  // Move to the next (1) or previous (-1) match, wrapping around
+  const handleStepMatch = (step: 1 | -1) => {
+    if (matches.length === 0) return;
     
-    setLevelCounts(counts);
-  }, [activeSession.logs, levelFilters, searchTerm, activeSession]);
+    const position = activeMatch === -1
+      ? (step === 1 ? 0 : matches.length - 1)
+      : (activeMatch + step + matches.length) % matches.length;
+    const index = matches[position];
+    showLog(index, filteredLogs[index]);
+  };
   
-  // Toggle pause
+  // Pausing freezes the view; resuming merges what arrived in the meantime
   const handlePauseToggle = () => {
-    setIsPaused(togglePause());
+    if (isPaused) {
+      resume(activeSession.id);
+    } else {
+      pause(activeSession.id);
+    }
   };
   
-  // Create new session
+  // Open the session dialog for a new session
   const handleNewSession = () => {
+    setSessionDialog({
+      mode: 'create',
+      defaultValues: defaultSessionConfig(sessions, websocketUrl)
+    });
+  };
+  
+  // Open the session dialog for an existing session
+  const handleEditSession = (session: LogSession) => {
+    setSessionDialog({ mode: 'edit', sessionId: session.id, defaultValues: getSessionConfig(session) });
+  };
+  
+  // Create new session
+  const handleCreateSession = (config: SessionConfig) => {
     const id = nanoid();
-    const newSession = {
-      id,
-      name: `Session ${sessions.length + 1}`,
-      websocketUrl,
-      logs: []
-    };
     
-    setSessions([...sessions, newSession]);
+    setSessions([...sessions, createSession(id, config)]);
     setActiveSessionId(id);
   };
   
+  // Open a log file in a session of its own
+  const handleImportFile = async (file: File) => {
+    const id = nanoid();
+    
+    // Several files can be dropped at once; each picks its colour from the
+    // sessions added before it
+    setSessions(prev => [...prev, {
+      ...createSession(id, { ...defaultSessionConfig(prev, websocketUrl), name: file.name }),
+      file: { name: file.name, size: file.size }
+    }]);
+    setActiveSessionId(id);
+    
+    // Record the detected format so it shows in the session's settings
+    const parser = await startImport(id, file);
+    if (parser) {
+      updateSession(id, { parser });
+    }
+  };
+  
+  const handleFileInputChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    Array.from(e.target.files ?? []).forEach(handleImportFile);
+    // Allow the same file to be picked again
+    e.target.value = '';
+  };
+  
+  const handleDragOver = (e: React.DragEvent) => {
+    if (!e.dataTransfer.types.includes('Files')) return;
+    e.preventDefault();
+    setIsDraggingFile(true);
+  };
+  
+  const handleDrop = (e: React.DragEvent) => {
+    if (!e.dataTransfer.types.includes('Files')) return;
+    e.preventDefault();
+    setIsDraggingFile(false);
+    Array.from(e.dataTransfer.files).forEach(handleImportFile);
+  };
+  
+  // Apply edited connection settings; the session reconnects only if its
+  // URL, transport or credentials changed
+  const handleUpdateSession = (sessionId: string, config: SessionConfig) => {
+    updateSession(sessionId, { ...config, authToken: config.authToken || undefined });
+  };
+  
+  const handleSessionDialogSubmit = (config: SessionConfig) => {
+    if (sessionDialog?.mode === 'edit') {
+      handleUpdateSession(sessionDialog.sessionId, config);
+    } else {
+      handleCreateSession(config);
+    }
+  };
+  
   // Remove session
   const handleRemoveSession = (sessionId: string) => {
     // Don't remove if it's the only session
@@ -138,39 +432,65 @@ export function LogDashboard({ websocketUrl = 'ws://localhost:8000/logs/ws/logs'
     }
     
     setSessions(newSessions);
+    removeConnection(sessionId);
+    removeImport(sessionId);
+    deleteCachedLogs(sessionId);
   };
   
   // Clear active session logs
   const handleClearLogs = () => {
-    clearLogs();
-    setSessions(prev => 
-      prev.map(session => 
-        session.id === activeSessionId 
-          ? { ...session, logs: [] } 
-          : session
-      )
-    );
+    if (activeSession.file) {
+      updateSession(activeSession.id, { logs: [] });
+    } else {
+      clearSession(activeSession.id);
+    }
   };
   
-  // Load filters from localStorage
+  // Save sessions and their filters to localStorage when they change
   useEffect(() => {
-    const savedFilters = localStorage.getItem('logLevelFilters');
-    if (savedFilters) {
-      try {
-        setLevelFilters(JSON.parse(savedFilters));
-      } catch (e) {
-        console.error('Failed to parse saved filters:', e);
-      }
-    }
-  }, []);
+    saveSessions(sessions, activeSessionId);
+  }, [sessions, activeSessionId]);
   
-  // Save filters to localStorage when they change
   useEffect(() => {
-    localStorage.setItem('logLevelFilters', JSON.stringify(levelFilters));
-  }, [levelFilters]);
+    saveViewOptions(viewOptions);
+  }, [viewOptions]);
+  
+  const handleOrderToggle = () => {
+    setViewOptions(prev => ({
+      ...prev,
+      order: prev.order === 'newest-first' ? 'newest-last' : 'newest-first'
+    }));
+  };
   
   return (
-    <div className="flex flex-col h-full bg-background dark border rounded-lg shadow-sm overflow-hidden">
+    <div
+      className="relative flex flex-col h-full bg-background dark border rounded-lg shadow-sm overflow-hidden"
+      onDragOver={handleDragOver}
+      onDragLeave={(e) => {
+        // Ignore leaving one child for another
+        if (!e.currentTarget.contains(e.relatedTarget as Node)) {
+          setIsDraggingFile(false);
+        }
+      }}
+      onDrop={handleDrop}
+    >
+      {isDraggingFile && (
+        <div className="absolute inset-0 z-50 flex items-center justify-center bg-background/80 border-2 border-dashed border-primary rounded-lg pointer-events-none">
+          <p className="text-sm font-medium">Drop a log file to open it in a new session</p>
+        </div>
+      )}
+      
+      {sessions.filter(session => !session.file).map(session => (
+        <SessionConnection
+          key={session.id}
+          ref={registerHandle(session.id)}
+          session={session}
+          onLogsChange={handleLogsChange}
+          onLogsReceived={handleLogsReceived}
+          onConnectionChange={handleConnectionChange}
+        />
+      ))}
+      
       {/* Header */}
       <div className="py-3 px-4 border-b">
         <div className="flex items-center justify-between mb-3">
@@ -185,67 +505,161 @@ export function LogDashboard({ websocketUrl = 'ws://localhost:8000/logs/ws/logs'
               <PlusCircle size={16} className="mr-1" />
               New Session
             </Button>
+            <Button
+              variant="ghost"
+              size="sm"
+              className="h-8 px-2"
+              onClick={() => fileInputRef.current?.click()}
+              title="Open a .log, .jsonl, .json or .gz file; you can also drop files here"
+            >
+              <FileUp size={16} className="mr-1" />
+              Import File
+            </Button>
+            <input
+              ref={fileInputRef}
+              type="file"
+              accept={IMPORT_FILE_ACCEPT}
+              multiple
+              className="hidden"
+              onChange={handleFileInputChange}
+            />
           </div>
         </div>
         
         <Tabs value={activeSessionId} onValueChange={setActiveSessionId} className="w-full">
           <TabsList className="w-full justify-start overflow-x-auto scrollbar-thin mb-1">
-            {sessions.map(session => (
-              <div key={session.id} className="flex items-center">
-                <TabsTrigger 
-                  value={session.id}
-                  className="min-w-[100px] whitespace-nowrap group"
-                >
-                  {session.name}
-                  {sessions.length > 1 && (
-                    <Button
-                      variant="ghost"
-                      size="icon"
-                      className="h-5 w-5 ml-1 opacity-0 group-hover:opacity-100 transition-opacity -mr-1"
-                      onClick={(e) => {
-                        e.stopPropagation();
-                        handleRemoveSession(session.id);
-                      }}
-                    >
-                      <Trash2 size={12} className="text-muted-foreground hover:text-destructive" />
-                    </Button>
-                  )}
-                </TabsTrigger>
-              </div>
-            ))}
+            {sessions.map(session => {
+              const connection = getConnection(session.id);
+              
+              return (
+                <div key={session.id} className="flex items-center">
+                  <TabsTrigger 
+                    value={session.id}
+                    className="min-w-[100px] whitespace-nowrap group"
+                  >
+                    {session.file ? (
+                      <FileText size={12} className="mr-2 text-muted-foreground" />
+                    ) : (
+                      <span
+                        className={cn(
+                          "h-2 w-2 rounded-full mr-2",
+                          connection.diagnostics.isStale ? 'bg-log-warning' : statusDotColor[connection.status]
+                        )}
+                        title={connection.errorMessage || (connection.diagnostics.isStale ? 'stale' : connection.status)}
+                      />
+                    )}
+                    <span className="border-b-2 pb-px" style={{ borderColor: session.color }}>
+                      {session.name}
+                    </span>
+                    {connection.unreadCount > 0 && (
+                      <span className="ml-2 px-1.5 rounded-full bg-muted-foreground/20 text-[10px] text-foreground">
+                        {formatBadgeCount(connection.unreadCount)}
+                      </span>
+                    )}
+                    {connection.errorCount > 0 && (
+                      <span
+                        className="ml-1 px-1.5 rounded-full bg-log-error/10 text-[10px] text-log-error"
+                        title={`${connection.errorCount} errors`}
+                      >
+                        {formatBadgeCount(connection.errorCount)}
+                      </span>
+                    )}
+                    {!session.file && (
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        className="h-5 w-5 ml-1 opacity-0 group-hover:opacity-100 transition-opacity"
+                        onClick={(e) => {
+                          e.stopPropagation();
+                          handleEditSession(session);
+                        }}
+                      >
+                        <Settings2 size={12} className="text-muted-foreground hover:text-foreground" />
+                        <span className="sr-only">Session settings</span>
+                      </Button>
+                    )}
+                    {sessions.length > 1 && (
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        className="h-5 w-5 ml-1 opacity-0 group-hover:opacity-100 transition-opacity -mr-1"
+                        onClick={(e) => {
+                          e.stopPropagation();
+                          handleRemoveSession(session.id);
+                        }}
+                      >
+                        <Trash2 size={12} className="text-muted-foreground hover:text-destructive" />
+                      </Button>
+                    )}
+                  </TabsTrigger>
+                </div>
+              );
+            })}
           </TabsList>
         </Tabs>
+        
+        {sessionDialog && (
+          <SessionSettingsDialog
+            open
+            onOpenChange={(open) => !open && setSessionDialog(null)}
+            title={sessionDialog.mode === 'edit' ? 'Session Settings' : 'New Session'}
+            submitLabel={sessionDialog.mode === 'edit' ? 'Save' : 'Connect'}
+            defaultValues={sessionDialog.defaultValues}
+            onSubmit={handleSessionDialogSubmit}
+          />
+        )}
       </div>
       
       <div className="py-2 px-4 border-b flex flex-wrap items-center justify-between gap-2">
         <div className="flex items-center gap-3">
-          <StatusIndicator status={status} />
+          {activeSession.file ? (
+            <FileImportStatus
+              file={activeSession.file}
+              state={imports[activeSession.id]}
+              onCancel={() => cancelImport(activeSession.id)}
+            />
+          ) : (
+            <StatusIndicator
+              status={status}
+              errorMessage={errorMessage}
+              isStale={diagnostics.isStale}
+              nextRetry={nextRetry}
+              onReconnect={() => reconnect(activeSession.id)}
+              onStopRetrying={() => stopRetrying(activeSession.id)}
+              onEditCredentials={() => handleEditSession(activeSession)}
+            />
+          )}
           {activeSession.logs.length > 0 && (
             <span className="text-xs text-muted-foreground">
               {filteredLogs.length} / {activeSession.logs.length} logs
             </span>
           )}
+          {evictedCount > 0 && (
+            <span
+              className="text-xs text-log-warning"
+              title="Older logs dropped to stay within this session's retention limits"
+            >
+              {evictedCount.toLocaleString()} evicted
+            </span>
+          )}
+          <MalformedFramesIndicator count={malformedCount} samples={malformedSamples} />
         </div>
         
         <div className="flex items-center gap-2">
-          {showSearch ? (
-            <div className="relative">
-              <Input
-                ref={searchInputRef}
-                placeholder="Search logs..."
-                value={searchTerm}
-                onChange={(e) => setSearchTerm(e.target.value)}
-                className="h-8 w-[200px] pr-8"
-              />
-              {searchTerm && (
-                <button
-                  onClick={() => setSearchTerm('')}
-                  className="absolute right-2 top-1/2 transform -translate-y-1/2 text-muted-foreground hover:text-foreground"
-                >
-                  <X size={14} />
-                </button>
-              )}
-            </div>
+          {showSearch || searchTerm ? (
+            <SearchBar
+              ref={searchInputRef}
+              value={searchTerm}
+              extraFields={extraFields}
+              onChange={setSearchTerm}
+              errors={queryErrors}
+              options={searchOptions}
+              onOptionsChange={setSearchOptions}
+              matchCount={matches.length}
+              activeMatch={activeMatch}
+              onNextMatch={() => handleStepMatch(1)}
+              onPreviousMatch={() => handleStepMatch(-1)}
+            />
           ) : (
             <Button 
               variant="ghost" 
@@ -258,6 +672,16 @@ export function LogDashboard({ websocketUrl = 'ws://localhost:8000/logs/ws/logs'
             </Button>
           )}
           
+          {!activeSession.file && (
+            <ConnectionDiagnosticsPanel
+              status={status}
+              diagnostics={diagnostics}
+              health={activeSession.health}
+              canPing={resolveTransport(activeSession.websocketUrl, activeSession.transport) === 'websocket'}
+              malformedCount={malformedCount}
+            />
+          )}
+          
           <Sheet>
             <SheetTrigger asChild>
               <Button variant="ghost" size="sm" className="h-8 px-2">
@@ -275,11 +699,87 @@ export function LogDashboard({ websocketUrl = 'ws://localhost:8000/logs/ws/logs'
             </SheetContent>
           </Sheet>
           
-          <Button variant="ghost" size="sm" className="h-8 px-2" onClick={handlePauseToggle}>
-            {isPaused ? <Play size={16} /> : <Pause size={16} />}
-            <span className="sr-only">{isPaused ? 'Resume' : 'Pause'}</span>
+          <Button
+            variant={viewOptions.follow ? "secondary" : "ghost"}
+            size="sm"
+            className="h-8 px-2"
+            onClick={() => handleFollowChange(!viewOptions.follow)}
+            title={viewOptions.follow ? 'Following new logs' : 'Follow new logs'}
+          >
+            <ArrowDownToLine size={16} className={cn(viewOptions.order === 'newest-first' && "rotate-180")} />
+            <span className="sr-only">{viewOptions.follow ? 'Stop following' : 'Follow'}</span>
+          </Button>
+          
+          <Button
+            variant="ghost"
+            size="sm"
+            className="h-8 px-2"
+            onClick={handleOrderToggle}
+            title={viewOptions.order === 'newest-first' ? 'Newest at top' : 'Newest at bottom'}
+          >
+            {viewOptions.order === 'newest-first' ? <ArrowUpNarrowWide size={16} /> : <ArrowDownWideNarrow size={16} />}
+            <span className="sr-only">Toggle log order</span>
+          </Button>
+          
+          {!activeSession.file && (
+            <Button
+              variant={isPaused ? "secondary" : "ghost"}
+              size="sm"
+              className="h-8 px-2"
+              onClick={handlePauseToggle}
+              title={isPaused ? 'Resume and show buffered logs' : 'Pause'}
+            >
+              {isPaused ? <Play size={16} /> : <Pause size={16} />}
+              {isPaused && bufferedCount > 0 && (
+                <span className="ml-1 text-xs tabular-nums">{bufferedCount.toLocaleString()} buffered</span>
+              )}
+              <span className="sr-only">{isPaused ? 'Resume' : 'Pause'}</span>
+            </Button>
+          )}
+          
+          {isPaused && bufferedCount > 0 && (
+            <Button
+              variant="ghost"
+              size="sm"
+              className="h-8 px-2 text-xs"
+              onClick={() => resume(activeSession.id, true)}
+              title="Drop the buffered logs and resume"
+            >
+              Discard
+            </Button>
+          )}
+          
+          <BookmarksPanel
+            bookmarks={bookmarks}
+            onJump={handleJumpToBookmark}
+            onNoteChange={(key, note) => setBookmarks(prev => setBookmarkNote(prev, key, note))}
+            onRemove={key => setBookmarks(prev => removeBookmark(prev, key))}
+          />
+          
+          <Button
+            variant="ghost"
+            size="sm"
+            className="h-8 px-2"
+            onClick={() => setShowExport(true)}
+            disabled={filteredLogs.length === 0}
+            title="Export the filtered logs"
+          >
+            <Download size={16} />
+            <span className="sr-only">Export</span>
           </Button>
           
+          {showExport && (
+            <ExportDialog
+              open
+              onOpenChange={setShowExport}
+              logs={filteredLogs}
+              selectedLogs={selectedLogs}
+              bookmarks={bookmarks}
+              extraFields={extraFields}
+              sessionName={activeSession.name}
+            />
+          )}
+          
           <Button 
             variant="outline" 
             size="sm"
@@ -291,6 +791,16 @@ export function LogDashboard({ websocketUrl = 'ws://localhost:8000/logs/ws/logs'
         </div>
       </div>
       
+      {selectedLogs.length > 0 && (
+        <SelectionToolbar
+          logs={selectedLogs}
+          onExport={() => setShowExport(true)}
+          onBookmark={handleBookmarkSelection}
+          onFilterToLogger={handleFilterToLogger}
+          onClear={clearSelection}
+        />
+      )}
+      
       {/* Log list */}
       {filteredLogs.length === 0 ? (
         <div className="flex-1 flex flex-col items-center justify-center p-8 text-center">
@@ -298,6 +808,8 @@ export function LogDashboard({ websocketUrl = 'ws://localhost:8000/logs/ws/logs'
           <p className="text-xs text-muted-foreground">
             {activeSession.logs.length > 0 
               ? 'Try adjusting your filters' 
+              : activeSession.file
+                ? imports[activeSession.id]?.status === 'importing' ? 'Reading file...' : 'No logs found in this file'
               : status === 'connected' 
                 ? 'Waiting for logs...' 
                 : 'Connect to view logs'
@@ -305,16 +817,23 @@ export function LogDashboard({ websocketUrl = 'ws://localhost:8000/logs/ws/logs'
           </p>
         </div>
       ) : (
-        <div className="flex-1 overflow-y-auto scrollbar-thin">
-          {filteredLogs.map((log, index) => (
-            <LogEntry 
-              key={`${log.time}-${index}`} 
-              log={log}
-              searchTerm={searchTerm}
-              className={index % 2 === 0 ? "bg-background" : "bg-secondary/30"}
-            />
-          ))}
-        </div>
+        <LogList
+          key={activeSession.id}
+          logs={filteredLogs}
+          ref={logListRef}
+          highlight={highlight}
+          activeLog={activeMatchLog}
+          gaps={gaps}
+          selectedIds={selectedIds}
+          onSelect={selectLog}
+          bookmarks={bookmarksByKey}
+          onToggleBookmark={handleToggleBookmark}
+          onNoteChange={(log, note) => setBookmarks(prev => setBookmarkNote(prev, log.id, note))}
+          onCopyLink={handleCopyLink}
+          order={viewOptions.order}
+          follow={viewOptions.follow}
+          onFollowChange={handleFollowChange}
+        />
       )}
     </div>
   );
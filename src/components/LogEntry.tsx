@@ -1,9 +1,13 @@
 
 import { useState } from 'react';
-import { Copy, ArrowDown, ArrowUp } from 'lucide-react';
-import { LogMessage } from '@/types/log';
+import { Copy, ArrowDown, ArrowUp, Bookmark, Link, StickyNote } from 'lucide-react';
+import { LogBookmark, LogMessage } from '@/types/log';
 import { cn } from '@/lib/utils';
+import { formatFieldValue, isChipValue } from '@/lib/logFields';
+import { getLevelBadgeClassName, getLevelClassName } from '@/lib/logLevels';
+import { hasHighlightMatch, highlightHtml } from '@/lib/logQuery';
 import { Button } from '@/components/ui/button';
+import { BookmarkNoteEditor } from '@/components/BookmarkNoteEditor';
 import { toast } from '@/hooks/use-toast';
 import { 
   Accordion,
@@ -15,11 +19,24 @@ import { Collapsible, CollapsibleContent, CollapsibleTrigger } from "@/component
 
 interface LogEntryProps {
   log: LogMessage;
-  searchTerm?: string;
+  highlight?: RegExp | null;
   className?: string;
+  // Set when the log is bookmarked
+  bookmark?: LogBookmark;
+  onToggleBookmark?: (log: LogMessage) => void;
+  onNoteChange?: (log: LogMessage, note: string) => void;
+  onCopyLink?: (log: LogMessage) => void;
 }
 
-export function LogEntry({ log, searchTerm, className }: LogEntryProps) {
+export function LogEntry({
+  log,
+  highlight,
+  className,
+  bookmark,
+  onToggleBookmark,
+  onNoteChange,
+  onCopyLink
+}: LogEntryProps) {
   const [expanded, setExpanded] = useState(false);
   
   const formattedTime = new Date(log.time).toLocaleTimeString('en-US', { 
@@ -50,12 +67,18 @@ export function LogEntry({ log, searchTerm, className }: LogEntryProps) {
   // Check if message is long
   const isLongMessage = log.message.length > 200;
   
-  const highlightSearchTerm = (text: string) => {
-    if (!searchTerm || searchTerm.length < 2) return text;
-    
-    const regex = new RegExp(`(${searchTerm.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')})`, 'gi');
-    return text.replace(regex, '<mark class="bg-accent-foreground/20 rounded px-0.5">$1</mark>');
-  };
+  // Short extra fields become chips; tracebacks and objects get a block
+  const extraFields = Object.entries(log.extra ?? {}).map(([key, value]) => {
+    const text = formatFieldValue(value);
+    return { key, text, isChip: isChipValue(text) };
+  });
+  const extraChips = extraFields.filter(field => field.isChip);
+  const extraBlocks = extraFields.filter(field => !field.isChip);
+  
+  const matchesHighlight = (text: string) => hasHighlightMatch(text, highlight);
+  
+  const highlightSearchTerm = (text: string) =>
+    highlightHtml(text, highlight, 'bg-accent-foreground/20 rounded px-0.5');
   
   const handleCopyClick = () => {
     navigator.clipboard.writeText(log.message);
@@ -64,28 +87,18 @@ export function LogEntry({ log, searchTerm, className }: LogEntryProps) {
     });
   };
   
-  const logLevelColor = {
-    'INFO': 'text-log-info border-log-info',
-    'DEBUG': 'text-log-debug border-log-debug',
-    'WARNING': 'text-log-warning border-log-warning',
-    'ERROR': 'text-log-error border-log-error'
-  }[log.level] || 'text-foreground';
+  const logLevelColor = getLevelClassName(log.level);
   
   return (
     <div className={cn(
-      "border-l-2 py-2 px-4 animate-fade-in",
+      "border-l-2 py-2 px-4",
       logLevelColor,
       className
     )}>
       <div className="flex items-center justify-between mb-2">
         <div className="flex items-center gap-3 text-xs">
           <span className="font-mono text-muted-foreground">{formattedTime}</span>
-          <span className={cn("font-medium px-1.5 py-0.5 rounded-full text-xs", {
-            "bg-log-info/10": log.level === 'INFO',
-            "bg-log-debug/10": log.level === 'DEBUG',
-            "bg-log-warning/10": log.level === 'WARNING',
-            "bg-log-error/10": log.level === 'ERROR',
-          })}>
+          <span className={cn("font-medium px-1.5 py-0.5 rounded-full text-xs", getLevelBadgeClassName(log.level))}>
             {log.level}
           </span>
           <span className="text-muted-foreground truncate max-w-[200px] sm:max-w-[300px] font-mono text-[10px]" title={source}>
@@ -93,6 +106,46 @@ export function LogEntry({ log, searchTerm, className }: LogEntryProps) {
           </span>
         </div>
         <div className="flex items-center">
+          {bookmark && onNoteChange && (
+            <BookmarkNoteEditor note={bookmark.note} onSave={note => onNoteChange(log, note)}>
+              <Button
+                variant="ghost"
+                size="icon"
+                className="h-6 w-6 text-muted-foreground hover:text-foreground"
+                title={bookmark.note ? 'Edit note' : 'Add a note'}
+              >
+                <StickyNote size={14} />
+                <span className="sr-only">Edit note</span>
+              </Button>
+            </BookmarkNoteEditor>
+          )}
+          {onToggleBookmark && (
+            <Button
+              variant="ghost"
+              size="icon"
+              className={cn(
+                "h-6 w-6 text-muted-foreground hover:text-foreground",
+                bookmark && "text-accent-foreground"
+              )}
+              onClick={() => onToggleBookmark(log)}
+              title={bookmark ? 'Remove bookmark' : 'Bookmark'}
+            >
+              <Bookmark size={14} className={cn(bookmark && "fill-current")} />
+              <span className="sr-only">{bookmark ? 'Remove bookmark' : 'Bookmark'}</span>
+            </Button>
+          )}
+          {onCopyLink && (
+            <Button
+              variant="ghost"
+              size="icon"
+              className="h-6 w-6 text-muted-foreground hover:text-foreground"
+              onClick={() => onCopyLink(log)}
+              title="Copy link to this log"
+            >
+              <Link size={14} />
+              <span className="sr-only">Copy link</span>
+            </Button>
+          )}
           <Button 
             variant="ghost" 
             size="icon"
@@ -123,7 +176,7 @@ export function LogEntry({ log, searchTerm, className }: LogEntryProps) {
           <div className="flex items-center justify-between">
             <div 
               className="text-sm log-content leading-relaxed truncate"
-              dangerouslySetInnerHTML={{ __html: highlightSearchTerm(formattedMessage.substring(0, 200) + '...') }}
+              dangerouslySetInnerHTML={{ __html: highlightSearchTerm(formattedMessage.substring(0, 200)) + '...' }}
             />
             <CollapsibleTrigger asChild>
               <Button variant="ghost" size="sm" className="ml-2 h-6 w-6 p-0">
@@ -145,6 +198,45 @@ export function LogEntry({ log, searchTerm, className }: LogEntryProps) {
           dangerouslySetInnerHTML={{ __html: highlightSearchTerm(formattedMessage) }}
         />
       )}
+      
+      {extraChips.length > 0 && (
+        <div className="flex flex-wrap gap-1 mt-1.5">
+          {extraChips.map(({ key, text }) => (
+            <span
+              key={key}
+              className={cn(
+                "inline-flex max-w-full rounded bg-secondary/60 px-1.5 py-0.5 font-mono text-[10px] text-muted-foreground",
+                matchesHighlight(text) && "bg-accent-foreground/20 text-foreground"
+              )}
+              title={`${key}=${text}`}
+            >
+              <span className="opacity-70">{key}=</span>
+              <span className="truncate text-foreground">{text}</span>
+            </span>
+          ))}
+        </div>
+      )}
+      
+      {bookmark?.note && (
+        <div className="mt-1.5 flex items-start gap-1.5 rounded bg-accent-foreground/10 px-2 py-1 text-xs whitespace-pre-wrap">
+          <StickyNote size={12} className="mt-0.5 shrink-0 text-muted-foreground" />
+          {bookmark.note}
+        </div>
+      )}
+      
+      {extraBlocks.map(({ key, text }) => (
+        <Collapsible key={key} className="mt-1.5">
+          <CollapsibleTrigger className="flex items-center gap-1 text-[10px] font-mono text-muted-foreground hover:text-foreground">
+            <ArrowDown size={12} />
+            {key}
+          </CollapsibleTrigger>
+          <CollapsibleContent>
+            <pre className="mt-1 text-xs font-mono bg-secondary/50 p-2 rounded overflow-x-auto scrollbar-thin whitespace-pre">
+              {text}
+            </pre>
+          </CollapsibleContent>
+        </Collapsible>
+      ))}
     </div>
   );
 }
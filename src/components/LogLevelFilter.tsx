@@ -2,6 +2,7 @@
 import { Checkbox } from '@/components/ui/checkbox';
 import { type LogLevel, type LogLevelFilter as LogLevelFilterType } from '@/types/log';
 import { cn } from '@/lib/utils';
+import { STANDARD_LEVELS, compareLevels, getLevelClassName } from '@/lib/logLevels';
 import { useState } from 'react';
 
 interface LogLevelFilterProps {
@@ -11,11 +12,12 @@ interface LogLevelFilterProps {
 }
 
 export function LogLevelFilter({ filters, onChange, counts }: LogLevelFilterProps) {
-  const levels: LogLevel[] = ['DEBUG', 'INFO', 'WARNING', 'ERROR'];
+  // The standard levels plus any others that have turned up in the logs
+  const levels: LogLevel[] = [...new Set([...STANDARD_LEVELS, ...Object.keys(counts ?? {})])].sort(compareLevels);
   const [indeterminate, setIndeterminate] = useState(false);
   
   const handleToggleFilter = (level: LogLevel) => {
-    onChange({ ...filters, [level]: !filters[level] });
+    onChange({ ...filters, [level]: filters[level] === false });
   };
   
   const handleToggleAll = (checked: boolean) => {
@@ -26,21 +28,16 @@ export function LogLevelFilter({ filters, onChange, counts }: LogLevelFilterProp
     onChange(newFilters);
   };
   
-  const allChecked = levels.every(level => filters[level]);
-  const someChecked = levels.some(level => filters[level]) && !allChecked;
+  // Levels missing from the filters haven't been toggled yet and are shown
+  const isShown = (level: LogLevel) => filters[level] !== false;
+  const allChecked = levels.every(isShown);
+  const someChecked = levels.some(isShown) && !allChecked;
   
   // Update indeterminate state when filter changes
   if (indeterminate !== someChecked) {
     setIndeterminate(someChecked);
   }
   
-  const levelColors = {
-    'DEBUG': 'text-log-debug',
-    'INFO': 'text-log-info',
-    'WARNING': 'text-log-warning',
-    'ERROR': 'text-log-error'
-  };
-  
   return (
     <div className="space-y-2">
       <div className="flex items-center space-x-2">
@@ -63,14 +60,14 @@ export function LogLevelFilter({ filters, onChange, counts }: LogLevelFilterProp
           <div key={level} className="flex items-center space-x-2">
             <Checkbox
               id={`level-${level}`}
-              checked={filters[level]}
+              checked={isShown(level)}
               onCheckedChange={() => handleToggleFilter(level)}
             />
             <label
               htmlFor={`level-${level}`}
               className={cn(
                 "text-sm font-medium leading-none peer-disabled:cursor-not-allowed peer-disabled:opacity-70 flex items-center",
-                levelColors[level]
+                getLevelClassName(level)
               )}
             >
               {level}
@@ -0,0 +1,281 @@
+import { forwardRef, useCallback, useImperativeHandle, useLayoutEffect, useMemo, useRef, useState } from 'react';
+import { useVirtualizer } from '@tanstack/react-virtual';
+import { ArrowDown, ArrowUp, Unplug } from 'lucide-react';
+import { ConnectionGap, LogBookmark, LogMessage, LogOrder } from '@/types/log';
+import { LogEntry } from '@/components/LogEntry';
+import { Button } from '@/components/ui/button';
+import { SelectModifiers } from '@/hooks/useLogSelection';
+import { findGapAnchor } from '@/lib/logGaps';
+import { cn } from '@/lib/utils';
+
+// Starting height for rows that haven't been measured yet
+const ESTIMATED_ROW_HEIGHT = 64;
+
+// How close to the latest edge still counts as "at the latest logs"
+const EDGE_THRESHOLD = 24;
+
+// Scroll events this soon after wheel/touch/key input are treated as the user's
+const USER_SCROLL_WINDOW = 300;
+
+export interface LogListHandle {
+  // Scrolls the log at `index` of `logs` into view
+  scrollToLog: (index: number) => void;
+}
+
+interface LogListProps {
+  logs: LogMessage[];
+  highlight?: RegExp | null;
+  activeLog?: LogMessage | null;
+  // Times the connection was down, marked between the logs around them
+  gaps?: ConnectionGap[];
+  // Ids of the selected rows
+  selectedIds?: Set<string>;
+  onSelect?: (log: LogMessage, modifiers: SelectModifiers) => void;
+  // The session's bookmarks by log id
+  bookmarks?: Map<string, LogBookmark>;
+  onToggleBookmark?: (log: LogMessage) => void;
+  onNoteChange?: (log: LogMessage, note: string) => void;
+  onCopyLink?: (log: LogMessage) => void;
+  order: LogOrder;
+  follow: boolean;
+  onFollowChange: (follow: boolean) => void;
+}
+
+// Clicks on controls inside a row, or ones that end a text selection,
+// aren't meant to select the row
+function isSelectionClick(event: React.MouseEvent) {
+  const target = event.target as HTMLElement;
+  if (target.closest('button, a, input, textarea, [role="button"]')) return false;
+  return window.getSelection()?.isCollapsed ?? true;
+}
+
+const formatGapTime = (time: string) =>
+  new Date(time).toLocaleTimeString('en-US', { hour12: false });
+
+function GapMarker({ gap }: { gap: ConnectionGap }) {
+  return (
+    <div className="flex items-center gap-2 px-4 py-1 text-xs text-log-warning bg-log-warning/5 border-y border-dashed border-log-warning/30">
+      <Unplug size={12} />
+      <span className="font-mono">
+        Connection lost {formatGapTime(gap.from)}–{formatGapTime(gap.to)}
+      </span>
+      <span className="text-muted-foreground">
+        {gap.backfill === 'loading' && '· backfilling…'}
+        {gap.backfill === 'done' && `· ${gap.backfilledCount.toLocaleString()} ${gap.backfilledCount === 1 ? 'log' : 'logs'} backfilled`}
+        {gap.backfill === 'failed' && '· backfill failed'}
+        {gap.backfill === 'none' && '· logs from this time may be missing'}
+      </span>
+    </div>
+  );
+}
+
+/**
+ * Windowed list of log entries. Only the rows in (or near) the viewport are
+ * mounted, and each is measured after render so expanded JSON and long
+ * messages get their real height.
+ *
+ * `logs` is always newest first; `order` only changes how it is displayed.
+ * While following, the list stays pinned to the latest logs. Otherwise the
+ * reading position is kept and new arrivals are counted in a jump pill.
+ */
+export const LogList = forwardRef<LogListHandle, LogListProps>(({
+  logs,
+  highlight,
+  activeLog,
+  gaps,
+  selectedIds,
+  onSelect,
+  bookmarks,
+  onToggleBookmark,
+  onNoteChange,
+  onCopyLink,
+  order,
+  follow,
+  onFollowChange
+}, ref) => {
+  const scrollRef = useRef<HTMLDivElement>(null);
+  const previousLogsRef = useRef(logs);
+  const lastUserInputRef = useRef(0);
+  const pointerDownRef = useRef(false);
+  const [newLogCount, setNewLogCount] = useState(0);
+
+  const newestFirst = order === 'newest-first';
+  // Maps a displayed row to its position in the newest-first `logs` array
+  const logIndexAt = (index: number) => newestFirst ? index : logs.length - 1 - index;
+  const logAt = (index: number) => logs[logIndexAt(index)];
+  
+  // Gap markers by the newest-first index of the log just before each gap
+  const gapsByLog = useMemo(() => {
+    const anchored = new Map<number, ConnectionGap[]>();
+    gaps?.forEach(gap => {
+      const index = findGapAnchor(logs, gap);
+      if (index !== -1) {
+        anchored.set(index, [...(anchored.get(index) ?? []), gap]);
+      }
+    });
+    return anchored;
+  }, [logs, gaps]);
+
+  const virtualizer = useVirtualizer({
+    count: logs.length,
+    getScrollElement: () => scrollRef.current,
+    estimateSize: () => ESTIMATED_ROW_HEIGHT,
+    getItemKey: index => logAt(index).id,
+    overscan: 10
+  });
+
+  useImperativeHandle(ref, () => ({
+    scrollToLog: index => {
+      virtualizer.scrollToIndex(newestFirst ? index : logs.length - 1 - index, { align: 'center' });
+    }
+  }), [logs.length, newestFirst, virtualizer]);
+
+  const scrollToLatest = useCallback(() => {
+    if (logs.length === 0) return;
+
+    if (newestFirst) {
+      virtualizer.scrollToOffset(0);
+    } else {
+      virtualizer.scrollToIndex(logs.length - 1, { align: 'end' });
+    }
+  }, [logs.length, newestFirst, virtualizer]);
+
+  useLayoutEffect(() => {
+    const previousLogs = previousLogsRef.current;
+    previousLogsRef.current = logs;
+
+    if (follow) {
+      setNewLogCount(0);
+      scrollToLatest();
+      return;
+    }
+
+    if (previousLogs.length === 0 || previousLogs === logs) return;
+
+    const scrollElement = scrollRef.current;
+
+    // Retention evicts the oldest rows, which newest-last shows at the top:
+    // pull the scroll position up by their height so the content under the
+    // reader doesn't slide up
+    const lastKept = previousLogs.lastIndexOf(logs[logs.length - 1]);
+    if (!newestFirst && scrollElement && lastKept !== -1 && lastKept < previousLogs.length - 1) {
+      let removedHeight = 0;
+      for (let i = lastKept + 1; i < previousLogs.length; i++) {
+        removedHeight += virtualizer.itemSizeCache.get(previousLogs[i].id) ?? ESTIMATED_ROW_HEIGHT;
+      }
+      virtualizer.scrollToOffset(Math.max(0, scrollElement.scrollTop - removedHeight));
+    }
+
+    const added = logs.indexOf(previousLogs[0]);
+    if (added <= 0) return;
+
+    setNewLogCount(count => count + added);
+
+    // Newest-first rows arrive above the reader: push the scroll position
+    // down by their height so what they were reading stays where it was
+    if (newestFirst && scrollElement) {
+      const addedHeight = virtualizer.measurementsCache[added]?.start ?? added * ESTIMATED_ROW_HEIGHT;
+      virtualizer.scrollToOffset(scrollElement.scrollTop + addedHeight);
+    }
+  }, [logs, follow, newestFirst, scrollToLatest, virtualizer]);
+
+  const markUserInput = () => {
+    lastUserInputRef.current = Date.now();
+  };
+
+  // Scrolling away from the latest logs stops following. Only scrolls the
+  // user caused count; the virtualizer also scrolls when rows are measured.
+  const handleScroll = () => {
+    const scrollElement = scrollRef.current;
+    if (!follow || !scrollElement) return;
+
+    const isUserScroll = pointerDownRef.current || Date.now() - lastUserInputRef.current < USER_SCROLL_WINDOW;
+    if (!isUserScroll) return;
+
+    const distanceFromLatest = newestFirst
+      ? scrollElement.scrollTop
+      : scrollElement.scrollHeight - scrollElement.clientHeight - scrollElement.scrollTop;
+
+    if (distanceFromLatest > EDGE_THRESHOLD) {
+      onFollowChange(false);
+    }
+  };
+
+  return (
+    <div className="relative flex-1 min-h-0 flex flex-col">
+      <div
+        ref={scrollRef}
+        className="flex-1 overflow-y-auto scrollbar-thin"
+        onScroll={handleScroll}
+        onWheel={markUserInput}
+        onTouchMove={markUserInput}
+        onKeyDown={markUserInput}
+        onPointerDown={() => { pointerDownRef.current = true; }}
+        onPointerUp={() => { pointerDownRef.current = false; }}
+      >
+        <div className="relative w-full" style={{ height: virtualizer.getTotalSize() }}>
+          {virtualizer.getVirtualItems().map(item => {
+            const log = logAt(item.index);
+            const isSelected = selectedIds?.has(log.id) ?? false;
+            // Gaps are newer than the log they're anchored to
+            const rowGaps = gapsByLog.get(logIndexAt(item.index))?.map(gap => <GapMarker key={gap.id} gap={gap} />);
+            
+            return (
+              <div
+                key={item.key}
+                ref={virtualizer.measureElement}
+                data-index={item.index}
+                className="absolute left-0 top-0 w-full"
+                style={{ transform: `translateY(${item.start}px)` }}
+              >
+                {newestFirst && rowGaps}
+                <div
+                  onClick={onSelect && (event => {
+                    if (!isSelectionClick(event)) return;
+                    onSelect(log, { range: event.shiftKey, toggle: event.ctrlKey || event.metaKey });
+                  })}
+                  onMouseDown={event => {
+                    // Keep shift-click from selecting text across rows
+                    if (event.shiftKey && onSelect) event.preventDefault();
+                  }}
+                >
+                  <LogEntry
+                    log={log}
+                    highlight={highlight}
+                    bookmark={bookmarks?.get(log.id)}
+                    onToggleBookmark={onToggleBookmark}
+                    onNoteChange={onNoteChange}
+                    onCopyLink={onCopyLink}
+                    className={cn(
+                      isSelected
+                        ? "bg-primary/15"
+                        : item.index % 2 === 0 ? "bg-background" : "bg-secondary/30",
+                      log.id === activeLog?.id && "ring-1 ring-inset ring-accent-foreground/40"
+                    )}
+                  />
+                </div>
+                {!newestFirst && rowGaps}
+              </div>
+            );
+          })}
+        </div>
+      </div>
+
+      {!follow && newLogCount > 0 && (
+        <Button
+          size="sm"
+          className={cn(
+            "absolute left-1/2 -translate-x-1/2 h-7 rounded-full shadow-md animate-fade-in",
+            newestFirst ? "top-3" : "bottom-3"
+          )}
+          onClick={() => onFollowChange(true)}
+        >
+          {newestFirst ? <ArrowUp size={14} className="mr-1" /> : <ArrowDown size={14} className="mr-1" />}
+          {newLogCount.toLocaleString()} new {newLogCount === 1 ? 'log' : 'logs'} — jump to latest
+        </Button>
+      )}
+    </div>
+  );
+});
+
+LogList.displayName = 'LogList';
@@ -0,0 +1,47 @@
+import { AlertTriangle } from 'lucide-react';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import { MalformedFrame } from '@/types/log';
+
+interface MalformedFramesIndicatorProps {
+  count: number;
+  samples: MalformedFrame[];
+}
+
+/**
+ * Count of frames the session couldn't turn into logs, with the latest few
+ * and why they were rejected in a popover.
+ */
+export function MalformedFramesIndicator({ count, samples }: MalformedFramesIndicatorProps) {
+  if (count === 0) return null;
+
+  return (
+    <Popover>
+      <PopoverTrigger asChild>
+        <button className="flex items-center gap-1 text-xs text-log-error hover:underline">
+          <AlertTriangle size={12} />
+          {count.toLocaleString()} malformed
+        </button>
+      </PopoverTrigger>
+      <PopoverContent align="start" className="w-[420px] p-0">
+        <div className="px-3 py-2 border-b text-xs font-medium">
+          Latest malformed frames
+        </div>
+        <div className="max-h-[320px] overflow-y-auto scrollbar-thin divide-y">
+          {samples.map(sample => (
+            <div key={`${sample.receivedAt}-${sample.frame}`} className="px-3 py-2 space-y-1">
+              <div className="flex items-baseline justify-between gap-2 text-xs">
+                <span className="text-log-error">{sample.error}</span>
+                <span className="font-mono text-[10px] text-muted-foreground whitespace-nowrap">
+                  {new Date(sample.receivedAt).toLocaleTimeString('en-US', { hour12: false })}
+                </span>
+              </div>
+              <pre className="text-[10px] font-mono bg-secondary/50 p-1.5 rounded overflow-x-auto scrollbar-thin whitespace-pre-wrap break-all">
+                {sample.frame}
+              </pre>
+            </div>
+          ))}
+        </div>
+      </PopoverContent>
+    </Popover>
+  );
+}
@@ -0,0 +1,145 @@
+import { forwardRef, useImperativeHandle, useRef, useState } from 'react';
+import { X } from 'lucide-react';
+import { Input } from '@/components/ui/input';
+import { QueryError, getQuerySuggestions } from '@/lib/logQuery';
+import { cn } from '@/lib/utils';
+
+interface QueryInputProps {
+  value: string;
+  onChange: (value: string) => void;
+  errors: QueryError[];
+  // Extra field keys seen in the logs, offered as field names
+  extraFields?: string[];
+  // Enter / Shift+Enter when no suggestion is being picked
+  onEnter?: (shiftKey: boolean) => void;
+  className?: string;
+}
+
+/**
+ * Search box for the log query language, with field autocomplete and the
+ * query's syntax errors shown underneath.
+ */
+export const QueryInput = forwardRef<HTMLInputElement, QueryInputProps>(
+  ({ value, onChange, errors, extraFields, onEnter, className }, ref) => {
+    const inputRef = useRef<HTMLInputElement>(null);
+    const [cursor, setCursor] = useState(0);
+    const [focused, setFocused] = useState(false);
+    const [selected, setSelected] = useState(0);
+    const [dismissed, setDismissed] = useState(false);
+
+    useImperativeHandle(ref, () => inputRef.current as HTMLInputElement);
+
+    const { suggestions, start, end } = getQuerySuggestions(value, cursor, extraFields);
+    const showSuggestions = focused && !dismissed && suggestions.length > 0;
+
+    const updateCursor = (input: HTMLInputElement) => {
+      setCursor(input.selectionStart ?? input.value.length);
+    };
+
+    const applySuggestion = (index: number) => {
+      const suggestion = suggestions[index];
+      const input = inputRef.current;
+      if (!suggestion || !input) return;
+
+      const next = value.slice(0, start) + suggestion.value + value.slice(end);
+      const nextCursor = start + suggestion.value.length;
+      onChange(next);
+      setCursor(nextCursor);
+      setSelected(0);
+
+      requestAnimationFrame(() => input.setSelectionRange(nextCursor, nextCursor));
+    };
+
+    const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+      if (!showSuggestions) {
+        if (e.key === 'Enter' && onEnter) {
+          e.preventDefault();
+          onEnter(e.shiftKey);
+        }
+        return;
+      }
+
+      if (e.key === 'ArrowDown' || e.key === 'ArrowUp') {
+        e.preventDefault();
+        const step = e.key === 'ArrowDown' ? 1 : -1;
+        setSelected(index => (index + step + suggestions.length) % suggestions.length);
+      } else if (e.key === 'Tab' || e.key === 'Enter') {
+        e.preventDefault();
+        applySuggestion(Math.min(selected, suggestions.length - 1));
+      } else if (e.key === 'Escape') {
+        setDismissed(true);
+      }
+    };
+
+    return (
+      <div className="relative">
+        <Input
+          ref={inputRef}
+          placeholder='Search logs... e.g. level:>=WARNING "timeout"'
+          value={value}
+          onChange={(e) => {
+            onChange(e.target.value);
+            updateCursor(e.target);
+            setSelected(0);
+            setDismissed(false);
+          }}
+          onKeyDown={handleKeyDown}
+          onKeyUp={(e) => updateCursor(e.currentTarget)}
+          onClick={(e) => updateCursor(e.currentTarget)}
+          onFocus={() => setFocused(true)}
+          onBlur={() => setFocused(false)}
+          spellCheck={false}
+          className={cn(
+            "h-8 pr-8 font-mono text-xs",
+            errors.length > 0 && "border-log-error focus-visible:ring-log-error",
+            className
+          )}
+        />
+        {value && (
+          <button
+            onClick={() => onChange('')}
+            className="absolute right-2 top-1/2 transform -translate-y-1/2 text-muted-foreground hover:text-foreground"
+          >
+            <X size={14} />
+          </button>
+        )}
+
+        {showSuggestions && (
+          <div className="absolute left-0 top-full mt-1 z-50 min-w-full rounded-md border bg-popover p-1 shadow-md">
+            {suggestions.map((suggestion, index) => (
+              <button
+                key={suggestion.value}
+                // Keep focus in the input while picking a suggestion
+                onMouseDown={(e) => e.preventDefault()}
+                onClick={() => applySuggestion(index)}
+                className={cn(
+                  "flex w-full items-baseline gap-3 rounded-sm px-2 py-1 text-left text-xs",
+                  index === selected ? "bg-accent text-accent-foreground" : "hover:bg-accent/50"
+                )}
+              >
+                <span className="font-mono">{suggestion.value}</span>
+                {suggestion.description && (
+                  <span className="text-muted-foreground truncate">{suggestion.description}</span>
+                )}
+              </button>
+            ))}
+          </div>
+        )}
+
+        {!showSuggestions && errors.length > 0 && (
+          <div className="absolute left-0 top-full mt-1 z-50 min-w-full rounded-md border border-log-error/40 bg-popover px-2 py-1 shadow-md">
+            {errors.map(error => (
+              <p key={`${error.start}-${error.message}`} className="text-xs text-log-error">
+                <span className="font-mono text-muted-foreground">{value.slice(error.start, error.end)}</span>
+                {' — '}
+                {error.message}
+              </p>
+            ))}
+          </div>
+        )}
+      </div>
+    );
+  }
+);
+
+QueryInput.displayName = 'QueryInput';
@@ -0,0 +1,102 @@
+import { forwardRef } from 'react';
+import { CaseSensitive, ChevronDown, ChevronUp, Regex, WholeWord } from 'lucide-react';
+import { QueryInput } from '@/components/QueryInput';
+import { Button } from '@/components/ui/button';
+import { Toggle } from '@/components/ui/toggle';
+import { QueryError } from '@/lib/logQuery';
+import { SearchOptions } from '@/types/log';
+
+interface SearchBarProps {
+  value: string;
+  onChange: (value: string) => void;
+  errors: QueryError[];
+  extraFields?: string[];
+  options: SearchOptions;
+  onOptionsChange: (options: SearchOptions) => void;
+  matchCount: number;
+  // Position of the current match among all matches, or -1 for none
+  activeMatch: number;
+  onNextMatch: () => void;
+  onPreviousMatch: () => void;
+}
+
+const optionToggles: { option: keyof SearchOptions; label: string; icon: typeof Regex }[] = [
+  { option: 'caseSensitive', label: 'Match case', icon: CaseSensitive },
+  { option: 'wholeWord', label: 'Match whole word', icon: WholeWord },
+  { option: 'regex', label: 'Use regular expression', icon: Regex }
+];
+
+export const SearchBar = forwardRef<HTMLInputElement, SearchBarProps>(({
+  value,
+  onChange,
+  errors,
+  extraFields,
+  options,
+  onOptionsChange,
+  matchCount,
+  activeMatch,
+  onNextMatch,
+  onPreviousMatch
+}, ref) => {
+  return (
+    <div className="flex items-center gap-1">
+      <QueryInput
+        ref={ref}
+        value={value}
+        onChange={onChange}
+        errors={errors}
+        extraFields={extraFields}
+        onEnter={(shiftKey) => shiftKey ? onPreviousMatch() : onNextMatch()}
+        className="w-[320px]"
+      />
+
+      {optionToggles.map(({ option, label, icon: Icon }) => (
+        <Toggle
+          key={option}
+          size="sm"
+          className="h-8 w-8 p-0"
+          pressed={options[option]}
+          onPressedChange={(pressed) => onOptionsChange({ ...options, [option]: pressed })}
+          title={label}
+        >
+          <Icon size={16} />
+          <span className="sr-only">{label}</span>
+        </Toggle>
+      ))}
+
+      {value && (
+        <span className="text-xs text-muted-foreground tabular-nums whitespace-nowrap px-1 min-w-[72px] text-center">
+          {matchCount === 0
+            ? 'No matches'
+            : `${activeMatch === -1 ? '–' : (activeMatch + 1).toLocaleString()} of ${matchCount.toLocaleString()}`
+          }
+        </span>
+      )}
+
+      <Button
+        variant="ghost"
+        size="sm"
+        className="h-8 w-8 p-0"
+        disabled={matchCount === 0}
+        onClick={onPreviousMatch}
+        title="Previous match (Shift+Enter)"
+      >
+        <ChevronUp size={16} />
+        <span className="sr-only">Previous match</span>
+      </Button>
+      <Button
+        variant="ghost"
+        size="sm"
+        className="h-8 w-8 p-0"
+        disabled={matchCount === 0}
+        onClick={onNextMatch}
+        title="Next match (Enter)"
+      >
+        <ChevronDown size={16} />
+        <span className="sr-only">Next match</span>
+      </Button>
+    </div>
+  );
+});
+
+SearchBar.displayName = 'SearchBar';
@@ -0,0 +1,122 @@
+import { Bookmark, Braces, Copy, Download, Filter, X } from 'lucide-react';
+import { LogMessage } from '@/types/log';
+import { formatLogForExport } from '@/lib/logExport';
+import { toast } from '@/hooks/use-toast';
+import { Button } from '@/components/ui/button';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu';
+
+interface SelectionToolbarProps {
+  // The selected logs, newest first
+  logs: LogMessage[];
+  onExport: () => void;
+  onBookmark: () => void;
+  onFilterToLogger: (name: string) => void;
+  onClear: () => void;
+}
+
+const formatTime = (time: string) =>
+  new Date(time).toLocaleTimeString('en-US', { hour12: false });
+
+function formatDuration(ms: number) {
+  if (ms < 1000) return `${ms}ms`;
+  const seconds = ms / 1000;
+  if (seconds < 60) return `${seconds.toFixed(1)}s`;
+  if (seconds < 3600) return `${Math.floor(seconds / 60)}m ${Math.floor(seconds % 60)}s`;
+  return `${Math.floor(seconds / 3600)}h ${Math.floor(seconds / 60) % 60}m`;
+}
+
+/**
+ * Count, time span and bulk actions for the selected rows.
+ */
+export function SelectionToolbar({ logs, onExport, onBookmark, onFilterToLogger, onClear }: SelectionToolbarProps) {
+  const newest = logs[0];
+  const oldest = logs[logs.length - 1];
+  const span = Date.parse(newest.time) - Date.parse(oldest.time);
+  const loggers = [...new Set(logs.map(log => log.name).filter(Boolean))];
+
+  const copy = (text: string) => {
+    navigator.clipboard.writeText(text);
+    toast({
+      description: `Copied ${logs.length} ${logs.length === 1 ? 'log' : 'logs'} to clipboard`
+    });
+  };
+
+  // Copies read oldest first, like a log file
+  const handleCopyText = () => {
+    copy(logs.slice().reverse().map(log => formatLogForExport(log, { format: 'text', columns: [] })).join('\n'));
+  };
+
+  const handleCopyJson = () => {
+    copy(JSON.stringify(logs.slice().reverse(), null, 2));
+  };
+
+  return (
+    <div className="py-1.5 px-4 border-b flex flex-wrap items-center gap-2 bg-primary/5 text-xs">
+      <span className="font-medium">
+        {logs.length.toLocaleString()} selected
+      </span>
+      <span className="text-muted-foreground font-mono tabular-nums">
+        {logs.length > 1
+          ? `${formatTime(oldest.time)}–${formatTime(newest.time)} (${isNaN(span) ? '?' : formatDuration(span)})`
+          : formatTime(newest.time)}
+      </span>
+
+      <div className="ml-auto flex items-center gap-1">
+        <Button variant="ghost" size="sm" className="h-7 px-2 text-xs" onClick={handleCopyText}>
+          <Copy size={14} className="mr-1" />
+          Copy text
+        </Button>
+        <Button variant="ghost" size="sm" className="h-7 px-2 text-xs" onClick={handleCopyJson}>
+          <Braces size={14} className="mr-1" />
+          Copy JSON
+        </Button>
+        <Button variant="ghost" size="sm" className="h-7 px-2 text-xs" onClick={onExport}>
+          <Download size={14} className="mr-1" />
+          Export
+        </Button>
+        <Button variant="ghost" size="sm" className="h-7 px-2 text-xs" onClick={onBookmark}>
+          <Bookmark size={14} className="mr-1" />
+          Bookmark
+        </Button>
+        {loggers.length === 1 && (
+          <Button
+            variant="ghost"
+            size="sm"
+            className="h-7 px-2 text-xs"
+            onClick={() => onFilterToLogger(loggers[0])}
+            title={`Only show logs from ${loggers[0]}`}
+          >
+            <Filter size={14} className="mr-1" />
+            Filter to logger
+          </Button>
+        )}
+        {loggers.length > 1 && (
+          <DropdownMenu>
+            <DropdownMenuTrigger asChild>
+              <Button variant="ghost" size="sm" className="h-7 px-2 text-xs">
+                <Filter size={14} className="mr-1" />
+                Filter to logger
+              </Button>
+            </DropdownMenuTrigger>
+            <DropdownMenuContent align="end" className="dark max-h-[240px] overflow-y-auto scrollbar-thin">
+              {loggers.map(name => (
+                <DropdownMenuItem key={name} className="font-mono text-xs" onSelect={() => onFilterToLogger(name)}>
+                  {name}
+                </DropdownMenuItem>
+              ))}
+            </DropdownMenuContent>
+          </DropdownMenu>
+        )}
+        <Button variant="ghost" size="icon" className="h-7 w-7" onClick={onClear} title="Clear selection (Esc)">
+          <X size={14} />
+          <span className="sr-only">Clear selection</span>
+        </Button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,182 @@
+import { forwardRef, useCallback, useEffect, useImperativeHandle, useMemo, useRef } from 'react';
+import { useLogStream } from '@/hooks/useLogStream';
+import { buildSessionUrl } from '@/lib/sessions';
+import { loadCachedLogs, saveCachedLogs } from '@/lib/logCache';
+import { DEFAULT_STREAM_AUTH, getTransportAuth } from '@/lib/streamAuth';
+import { withQueryParam } from '@/lib/logGaps';
+import { LogMessage, LogSession, SessionConnectionState } from '@/types/log';
+
+export interface SessionConnectionHandle {
+  reconnectNow: () => void;
+  stopRetrying: () => void;
+  clearLogs: () => void;
+  pause: () => void;
+  resume: (discardBuffered?: boolean) => void;
+}
+
+interface SessionConnectionProps {
+  session: LogSession;
+  onLogsChange: (sessionId: string, logs: LogMessage[]) => void;
+  onLogsReceived: (sessionId: string, logs: LogMessage[]) => void;
+  onConnectionChange: (sessionId: string, update: Partial<SessionConnectionState>) => void;
+}
+
+// Writes of a session's logs to the cache are at least this far apart
+const CACHE_WRITE_INTERVAL = 1000;
+
+// Renders nothing; it only keeps one session's connection alive so that sessions
+// keep streaming while their tab is in the background.
+export const SessionConnection = forwardRef<SessionConnectionHandle, SessionConnectionProps>(
+  ({ session, onLogsChange, onLogsReceived, onConnectionChange }, ref) => {
+    const sessionId = session.id;
+    
+    const handleLogs = useCallback((batch: LogMessage[]) => {
+      onLogsReceived(sessionId, batch);
+    }, [sessionId, onLogsReceived]);
+    
+    // Built from the fields it uses, since a new auth object reconnects and
+    // saving the settings dialog replaces `session.auth` even when unchanged
+    const { auth, authToken, backfill } = session;
+    const { method: authMethod, subprotocol: authSubprotocol } = auth;
+    const transportAuth = useMemo(
+      () => getTransportAuth({ ...DEFAULT_STREAM_AUTH, method: authMethod, subprotocol: authSubprotocol }, authToken),
+      [authMethod, authSubprotocol, authToken]
+    );
+    
+    // History requests carry the token the same way the stream URL does
+    const sessionBackfill = useMemo(() => (
+      auth.method === 'query' && authToken && backfill.historyUrl
+        ? { ...backfill, historyUrl: withQueryParam(backfill.historyUrl, auth.queryParam, authToken) }
+        : backfill
+    ), [auth, authToken, backfill]);
+    
+    const {
+      logs,
+      evictedCount,
+      status,
+      errorMessage,
+      nextRetry,
+      gaps,
+      reconnectNow,
+      stopRetrying,
+      clearLogs,
+      restoreLogs,
+      pause,
+      resume,
+      isPaused,
+      bufferedCount,
+      malformedCount,
+      malformedSamples,
+      diagnostics
+    } = useLogStream({
+      url: buildSessionUrl(session),
+      transport: session.transport,
+      auth: transportAuth,
+      autoShowToasts: false,
+      retention: session.retention,
+      parser: session.parser,
+      backfill: sessionBackfill,
+      health: session.health,
+      onLogs: handleLogs
+    });
+    
+    useImperativeHandle(
+      ref,
+      () => ({ reconnectNow, stopRetrying, clearLogs, pause, resume }),
+      [reconnectNow, stopRetrying, clearLogs, pause, resume]
+    );
+    
+    const restoredRef = useRef(false);
+    // Logs waiting to be written to the cache, and the timer that will
+    const unsavedLogsRef = useRef<LogMessage[] | null>(null);
+    const cacheTimerRef = useRef<number | null>(null);
+    
+    const flushCache = useCallback(() => {
+      if (cacheTimerRef.current !== null) {
+        clearTimeout(cacheTimerRef.current);
+        cacheTimerRef.current = null;
+      }
+      if (unsavedLogsRef.current) {
+        saveCachedLogs(sessionId, unsavedLogsRef.current);
+        unsavedLogsRef.current = null;
+      }
+    }, [sessionId]);
+    
+    // Bring back the logs cached before the last reload
+    useEffect(() => {
+      let cancelled = false;
+      
+      loadCachedLogs(sessionId).then(cached => {
+        if (cancelled) return;
+        restoredRef.current = true;
+        if (cached.length > 0) {
+          restoreLogs(cached);
+        }
+      });
+      
+      return () => {
+        cancelled = true;
+      };
+    }, [sessionId, restoreLogs]);
+    
+    useEffect(() => {
+      onLogsChange(sessionId, logs);
+      
+      // Don't overwrite the cache before it has been read back
+      if (!restoredRef.current) return;
+      
+      // Throttled rather than debounced, so a busy stream still gets saved
+      unsavedLogsRef.current = logs;
+      if (cacheTimerRef.current === null) {
+        cacheTimerRef.current = window.setTimeout(flushCache, CACHE_WRITE_INTERVAL);
+      }
+    }, [sessionId, logs, onLogsChange, flushCache]);
+    
+    // Save what's waiting before the page goes away. A removed session's
+    // pending write is dropped instead, since its cache is deleted.
+    useEffect(() => {
+      const handleVisibilityChange = () => {
+        if (document.visibilityState === 'hidden') flushCache();
+      };
+      window.addEventListener('pagehide', flushCache);
+      document.addEventListener('visibilitychange', handleVisibilityChange);
+      
+      return () => {
+        window.removeEventListener('pagehide', flushCache);
+        document.removeEventListener('visibilitychange', handleVisibilityChange);
+        if (cacheTimerRef.current !== null) {
+          clearTimeout(cacheTimerRef.current);
+          cacheTimerRef.current = null;
+        }
+      };
+    }, [flushCache]);
+    
+    useEffect(() => {
+      onConnectionChange(sessionId, { status, errorMessage, nextRetry });
+    }, [sessionId, status, errorMessage, nextRetry, onConnectionChange]);
+    
+    useEffect(() => {
+      onConnectionChange(sessionId, { evictedCount });
+    }, [sessionId, evictedCount, onConnectionChange]);
+    
+    useEffect(() => {
+      onConnectionChange(sessionId, { isPaused, bufferedCount });
+    }, [sessionId, isPaused, bufferedCount, onConnectionChange]);
+    
+    useEffect(() => {
+      onConnectionChange(sessionId, { gaps });
+    }, [sessionId, gaps, onConnectionChange]);
+    
+    useEffect(() => {
+      onConnectionChange(sessionId, { malformedCount, malformedSamples });
+    }, [sessionId, malformedCount, malformedSamples, onConnectionChange]);
+    
+    useEffect(() => {
+      onConnectionChange(sessionId, { diagnostics });
+    }, [sessionId, diagnostics, onConnectionChange]);
+    
+    return null;
+  }
+);
+
+SessionConnection.displayName = 'SessionConnection';
@@ -0,0 +1,459 @@
+import { useFieldArray, useForm } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { Plus, X } from 'lucide-react';
+import { SESSION_COLORS, SessionConfig, sessionConfigSchema } from '@/lib/sessions';
+import { LOG_FORMATS } from '@/lib/logParsers';
+import { TRANSPORT_OPTIONS } from '@/lib/transports';
+import { AUTH_METHODS } from '@/lib/streamAuth';
+import { cn } from '@/lib/utils';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import {
+  Form,
+  FormControl,
+  FormDescription,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from '@/components/ui/form';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+
+interface SessionSettingsDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  title: string;
+  submitLabel: string;
+  defaultValues: SessionConfig;
+  onSubmit: (config: SessionConfig) => void;
+}
+
+export function SessionSettingsDialog({
+  open,
+  onOpenChange,
+  title,
+  submitLabel,
+  defaultValues,
+  onSubmit
+}: SessionSettingsDialogProps) {
+  const form = useForm<SessionConfig>({
+    resolver: zodResolver(sessionConfigSchema),
+    defaultValues
+  });
+
+  const { fields, append, remove } = useFieldArray({
+    control: form.control,
+    name: 'queryParams'
+  });
+
+  const format = form.watch('parser.format');
+  const authMethod = form.watch('auth.method');
+  
+  const handleSubmit = (config: SessionConfig) => {
+    onSubmit(config);
+    onOpenChange(false);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="dark sm:max-w-[480px] max-h-[90vh] overflow-y-auto scrollbar-thin">
+        <DialogHeader>
+          <DialogTitle>{title}</DialogTitle>
+          <DialogDescription>
+            Each session keeps its own connection, so several services can be tailed side by side.
+          </DialogDescription>
+        </DialogHeader>
+
+        <Form {...form}>
+          <form onSubmit={form.handleSubmit(handleSubmit)} className="space-y-4">
+            <FormField
+              control={form.control}
+              name="name"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Name</FormLabel>
+                  <FormControl>
+                    <Input {...field} placeholder="api-server" />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <FormField
+              control={form.control}
+              name="websocketUrl"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Stream URL</FormLabel>
+                  <FormControl>
+                    <Input {...field} placeholder="ws://localhost:8000/logs/ws/logs" className="font-mono text-xs" />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <FormField
+              control={form.control}
+              name="transport"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Transport</FormLabel>
+                  <Select value={field.value} onValueChange={field.onChange}>
+                    <FormControl>
+                      <SelectTrigger>
+                        <SelectValue />
+                      </SelectTrigger>
+                    </FormControl>
+                    <SelectContent className="dark">
+                      {TRANSPORT_OPTIONS.map(({ value, label }) => (
+                        <SelectItem key={value} value={value}>{label}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <FormDescription>
+                    {TRANSPORT_OPTIONS.find(option => option.value === field.value)?.description}
+                  </FormDescription>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <FormField
+              control={form.control}
+              name="color"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Color</FormLabel>
+                  <div className="flex items-center gap-2">
+                    {SESSION_COLORS.map(color => (
+                      <button
+                        key={color}
+                        type="button"
+                        onClick={() => field.onChange(color)}
+                        className={cn(
+                          "h-6 w-6 rounded-full border-2 border-transparent transition-transform hover:scale-110",
+                          field.value === color && "border-foreground"
+                        )}
+                        style={{ backgroundColor: color }}
+                      >
+                        <span className="sr-only">{color}</span>
+                      </button>
+                    ))}
+                  </div>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <div className="grid grid-cols-2 gap-4">
+              <FormField
+                control={form.control}
+                name="auth.method"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Authentication</FormLabel>
+                    <Select value={field.value} onValueChange={field.onChange}>
+                      <FormControl>
+                        <SelectTrigger>
+                          <SelectValue />
+                        </SelectTrigger>
+                      </FormControl>
+                      <SelectContent className="dark">
+                        {AUTH_METHODS.map(({ method, label }) => (
+                          <SelectItem key={method} value={method}>{label}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              {authMethod === 'query' && (
+                <FormField
+                  control={form.control}
+                  name="auth.queryParam"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Parameter</FormLabel>
+                      <FormControl>
+                        <Input {...field} placeholder="token" className="font-mono text-xs" />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+              )}
+              {authMethod === 'subprotocol' && (
+                <FormField
+                  control={form.control}
+                  name="auth.subprotocol"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Subprotocol</FormLabel>
+                      <FormControl>
+                        <Input {...field} placeholder="bearer" className="font-mono text-xs" />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+              )}
+              <p className="col-span-2 -mt-2 text-sm text-muted-foreground">
+                {AUTH_METHODS.find(option => option.method === authMethod)?.description}
+              </p>
+            </div>
+
+            <FormField
+              control={form.control}
+              name="authToken"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Auth token</FormLabel>
+                  <FormControl>
+                    <Input {...field} type="password" autoComplete="off" placeholder="Optional" />
+                  </FormControl>
+                  <FormDescription>Kept for this browser tab only and sent again on every reconnect.</FormDescription>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <FormField
+              control={form.control}
+              name="parser.format"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Log format</FormLabel>
+                  <Select value={field.value} onValueChange={field.onChange}>
+                    <FormControl>
+                      <SelectTrigger>
+                        <SelectValue />
+                      </SelectTrigger>
+                    </FormControl>
+                    <SelectContent className="dark">
+                      {LOG_FORMATS.map(({ format, label }) => (
+                        <SelectItem key={format} value={format}>{label}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <FormDescription>
+                    {LOG_FORMATS.find(option => option.format === field.value)?.description}
+                  </FormDescription>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            {format === 'regex' && (
+              <FormField
+                control={form.control}
+                name="parser.pattern"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Pattern</FormLabel>
+                    <FormControl>
+                      <Input
+                        {...field}
+                        placeholder="^(?<time>\S+) (?<level>\w+) (?<message>.*)$"
+                        className="font-mono text-xs"
+                        spellCheck={false}
+                      />
+                    </FormControl>
+                    <FormDescription>
+                      Groups named time, level, message, name, function and line fill those fields; any other group becomes an extra field.
+                    </FormDescription>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            )}
+
+            <div className="grid grid-cols-2 gap-4">
+              <FormField
+                control={form.control}
+                name="backfill.historyUrl"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>History URL</FormLabel>
+                    <FormControl>
+                      <Input {...field} placeholder="Optional" className="font-mono text-xs" />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="backfill.resumeParam"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Resume parameter</FormLabel>
+                    <FormControl>
+                      <Input {...field} placeholder="Optional, e.g. since" className="font-mono text-xs" />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <p className="col-span-2 -mt-2 text-sm text-muted-foreground">
+                After a dropped connection, missed logs are fetched from the history URL (with <code>since</code>,{' '}
+                <code>until</code> and <code>cursor</code> parameters), and/or the last log's sequence number or time is
+                sent to the stream in the resume parameter.
+              </p>
+            </div>
+
+            <div className="grid grid-cols-2 gap-4">
+              <FormField
+                control={form.control}
+                name="retention.maxEntries"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Max entries</FormLabel>
+                    <FormControl>
+                      <Input
+                        {...field}
+                        value={field.value ?? ''}
+                        type="number"
+                        min={100}
+                        placeholder="Unlimited"
+                      />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="retention.maxAgeMinutes"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Max age (minutes)</FormLabel>
+                    <FormControl>
+                      <Input
+                        {...field}
+                        value={field.value ?? ''}
+                        type="number"
+                        min={1}
+                        placeholder="Unlimited"
+                      />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            </div>
+
+            <div className="grid grid-cols-2 gap-4">
+              <FormField
+                control={form.control}
+                name="health.staleAfterSeconds"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Stale after (seconds)</FormLabel>
+                    <FormControl>
+                      <Input {...field} value={field.value ?? ''} type="number" min={1} placeholder="Never" />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="health.pingIntervalSeconds"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Ping every (seconds)</FormLabel>
+                    <FormControl>
+                      <Input {...field} value={field.value ?? ''} type="number" min={1} placeholder="Off" />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <p className="col-span-2 -mt-2 text-sm text-muted-foreground">
+                Pings measure latency over WebSocket: the server must answer <code>{'{"type":"ping","id":1}'}</code> with{' '}
+                <code>{'{"type":"pong","id":1}'}</code>.
+              </p>
+            </div>
+
+            <div className="space-y-2">
+              <div className="flex items-center justify-between">
+                <span className="text-sm font-medium">Query parameters</span>
+                <Button
+                  type="button"
+                  variant="ghost"
+                  size="sm"
+                  className="h-7 px-2"
+                  onClick={() => append({ key: '', value: '' })}
+                >
+                  <Plus size={14} className="mr-1" />
+                  Add
+                </Button>
+              </div>
+              {fields.map((item, index) => (
+                <div key={item.id} className="flex items-start gap-2">
+                  <FormField
+                    control={form.control}
+                    name={`queryParams.${index}.key`}
+                    render={({ field }) => (
+                      <FormItem className="flex-1 space-y-1">
+                        <FormControl>
+                          <Input {...field} placeholder="key" className="h-8 font-mono text-xs" />
+                        </FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                  <FormField
+                    control={form.control}
+                    name={`queryParams.${index}.value`}
+                    render={({ field }) => (
+                      <FormItem className="flex-1 space-y-1">
+                        <FormControl>
+                          <Input {...field} placeholder="value" className="h-8 font-mono text-xs" />
+                        </FormControl>
+                      </FormItem>
+                    )}
+                  />
+                  <Button
+                    type="button"
+                    variant="ghost"
+                    size="icon"
+                    className="h-8 w-8 text-muted-foreground"
+                    onClick={() => remove(index)}
+                  >
+                    <X size={14} />
+                    <span className="sr-only">Remove parameter</span>
+                  </Button>
+                </div>
+              ))}
+            </div>
+
+            <DialogFooter>
+              <Button type="button" variant="outline" onClick={() => onOpenChange(false)}>
+                Cancel
+              </Button>
+              <Button type="submit">{submitLabel}</Button>
+            </DialogFooter>
+          </form>
+        </Form>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -1,17 +1,47 @@
 
-import { Check, Loader, WifiOff } from 'lucide-react';
+import { Check, Clock, Loader, ShieldAlert, WifiOff } from 'lucide-react';
 import { cn } from '@/lib/utils';
 import { useEffect, useState } from 'react';
+import { ConnectionStatus, ScheduledRetry } from '@/types/log';
+import { Button } from '@/components/ui/button';
 
 interface StatusIndicatorProps {
-  status: 'connecting' | 'connected' | 'disconnected';
+  status: ConnectionStatus;
   className?: string;
   errorMessage?: string;
+  // Connected, but nothing has arrived for a while
+  isStale?: boolean;
+  nextRetry?: ScheduledRetry | null;
+  onReconnect?: () => void;
+  onStopRetrying?: () => void;
+  // Opens the session's settings, to fix rejected credentials
+  onEditCredentials?: () => void;
 }
 
-export function StatusIndicator({ status, errorMessage, className }: StatusIndicatorProps) {
+export function StatusIndicator({
+  status,
+  errorMessage,
+  isStale,
+  nextRetry,
+  onReconnect,
+  onStopRetrying,
+  onEditCredentials,
+  className
+}: StatusIndicatorProps) {
   const [prevStatus, setPrevStatus] = useState(status);
   const [isTransitioning, setIsTransitioning] = useState(false);
+  const [now, setNow] = useState(Date.now);
+  
+  // Tick once a second while a retry countdown is showing
+  useEffect(() => {
+    if (!nextRetry) return;
+    
+    setNow(Date.now());
+    const timer = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(timer);
+  }, [nextRetry]);
+  
+  const retryInSeconds = nextRetry ? Math.max(0, Math.ceil((nextRetry.at - now) / 1000)) : 0;
   
   useEffect(() => {
     // Only trigger animation when status changes
@@ -34,7 +64,16 @@ export function StatusIndicator({ status, errorMessage, className }: StatusIndic
       isTransitioning && "animate-pulse-subtle",
       className
     )}>
-      {status === 'connected' && (
+      {status === 'connected' && isStale && (
+        <>
+          <Clock size={16} className="text-log-warning" />
+          <span className="text-sm font-medium text-log-warning" title="Connected, but no logs have arrived recently">
+            Stale
+          </span>
+        </>
+      )}
+      
+      {status === 'connected' && !isStale && (
         <>
           <div className="relative">
             <Check size={16} className="text-log-info" />
@@ -53,6 +92,26 @@ export function StatusIndicator({ status, errorMessage, className }: StatusIndic
         </>
       )}
       
+      {status === 'unauthorized' && (
+        <>
+          <ShieldAlert size={16} className="text-log-error" />
+          <div className="flex flex-col">
+            <span className="text-sm font-medium text-log-error">Authentication failed</span>
+            {errorMessage && <span className="text-xs text-log-error/80">{errorMessage}</span>}
+          </div>
+          {onEditCredentials && (
+            <Button variant="outline" size="sm" className="h-7 px-2 text-xs" onClick={onEditCredentials}>
+              Edit credentials
+            </Button>
+          )}
+          {onReconnect && (
+            <Button variant="ghost" size="sm" className="h-7 px-2 text-xs" onClick={onReconnect}>
+              Retry
+            </Button>
+          )}
+        </>
+      )}
+      
       {status === 'disconnected' && (
         <>
           <div className="relative">
@@ -62,9 +121,26 @@ export function StatusIndicator({ status, errorMessage, className }: StatusIndic
             )}
           </div>
           <div className="flex flex-col">
-            <span className="text-sm font-medium text-log-error">Disconnected</span>
+            <span className="text-sm font-medium text-log-error">
+              Disconnected
+              {nextRetry && (
+                <span className="ml-1 text-xs font-normal text-muted-foreground tabular-nums">
+                  — retrying in {retryInSeconds}s, attempt {nextRetry.attempt}
+                </span>
+              )}
+            </span>
             {errorMessage && <span className="text-xs text-log-error/80">{errorMessage}</span>}
           </div>
+          {onReconnect && (
+            <Button variant="outline" size="sm" className="h-7 px-2 text-xs" onClick={onReconnect}>
+              {nextRetry ? 'Reconnect now' : 'Reconnect'}
+            </Button>
+          )}
+          {nextRetry && onStopRetrying && (
+            <Button variant="ghost" size="sm" className="h-7 px-2 text-xs" onClick={onStopRetrying}>
+              Stop retrying
+            </Button>
+          )}
         </>
       )}
     </div>
@@ -0,0 +1,93 @@
+import { useState, useEffect, useCallback, useRef } from 'react';
+import { FileImportState, LogMessage, LogParserConfig } from '@/types/log';
+import { importLogFile } from '@/lib/fileImport';
+
+// How often a running import hands its logs over for display
+const IMPORT_UPDATE_INTERVAL = 500;
+
+/**
+ * Imports log files into file sessions, reporting each session's logs
+ * (newest first, like a live session's) as they are read.
+ */
+export function useFileImports(onLogsChange: (sessionId: string, logs: LogMessage[]) => void) {
+  const [imports, setImports] = useState<Record<string, FileImportState>>({});
+  const controllersRef = useRef<Record<string, AbortController>>({});
+  const onLogsChangeRef = useRef(onLogsChange);
+  onLogsChangeRef.current = onLogsChange;
+
+  const updateImport = useCallback((sessionId: string, update: Partial<FileImportState>) => {
+    setImports(prev => prev[sessionId] ? { ...prev, [sessionId]: { ...prev[sessionId], ...update } } : prev);
+  }, []);
+
+  // Resolves with the parser the file was read with, detected when not given
+  const startImport = useCallback(async (sessionId: string, file: File, parser?: LogParserConfig) => {
+    controllersRef.current[sessionId]?.abort();
+    const controller = new AbortController();
+    controllersRef.current[sessionId] = controller;
+
+    setImports(prev => ({
+      ...prev,
+      [sessionId]: { status: 'importing', bytesRead: 0, totalBytes: file.size, logCount: 0, malformedCount: 0, duplicateCount: 0 }
+    }));
+
+    // In file order; reversed for display
+    const logs: LogMessage[] = [];
+    let lastUpdate = 0;
+    const publish = () => onLogsChangeRef.current(sessionId, logs.slice().reverse());
+
+    try {
+      const result = await importLogFile(file, {
+        parser,
+        signal: controller.signal,
+        onProgress: (batch, progress) => {
+          // Not spread into push: a large batch would overflow the stack
+          batch.forEach(log => logs.push(log));
+
+          if (Date.now() - lastUpdate >= IMPORT_UPDATE_INTERVAL) {
+            lastUpdate = Date.now();
+            publish();
+            updateImport(sessionId, progress);
+          }
+        }
+      });
+
+      publish();
+      updateImport(sessionId, { ...result.progress, status: 'done' });
+      return result.parser;
+    } catch (error) {
+      // Keep whatever was read before the import stopped
+      publish();
+      if (controller.signal.aborted) {
+        updateImport(sessionId, { status: 'cancelled' });
+      } else {
+        console.error('Log file import failed:', error);
+        updateImport(sessionId, { status: 'failed', error: (error as Error).message });
+      }
+      return null;
+    } finally {
+      if (controllersRef.current[sessionId] === controller) {
+        delete controllersRef.current[sessionId];
+      }
+    }
+  }, [updateImport]);
+
+  const cancelImport = useCallback((sessionId: string) => {
+    controllersRef.current[sessionId]?.abort();
+  }, []);
+
+  const removeImport = useCallback((sessionId: string) => {
+    controllersRef.current[sessionId]?.abort();
+    setImports(prev => {
+      const { [sessionId]: _removed, ...rest } = prev;
+      return rest;
+    });
+  }, []);
+
+  // Stop reading files once the dashboard goes away
+  useEffect(() => {
+    const controllers = controllersRef.current;
+    return () => Object.values(controllers).forEach(controller => controller.abort());
+  }, []);
+
+  return { imports, startImport, cancelImport, removeImport };
+}
@@ -0,0 +1,195 @@
+import { useState, useEffect, useRef, useCallback, useMemo } from 'react';
+import { LogLevel, LogLevelFilter, LogMessage, SearchOptions } from '@/types/log';
+import type { LogFilterRequest, LogFilterResult } from '@/workers/logFilter.worker';
+import { DEFAULT_SEARCH_OPTIONS, QueryError, parseQuery } from '@/lib/logQuery';
+
+interface UseLogFilterOptions {
+  sessionId: string;
+  logs: LogMessage[];
+  levelFilters: LogLevelFilter;
+  searchTerm: string;
+  searchOptions: SearchOptions;
+}
+
+const emptyCounts: Record<LogLevel, number> = {};
+
+// How often a query relative to now (`time:>-15m`) is evaluated again, so
+// logs drop out of it as they age
+const RELATIVE_QUERY_REFRESH_INTERVAL = 5000;
+
+// How long the worker may spend on one request while searching. A regex
+// that backtracks without end can't be interrupted, so a worker taking
+// longer is stopped and started again without that search.
+const SEARCH_TIME_LIMIT = 3000;
+
+interface SearchRequest {
+  searchTerm: string;
+  searchOptions: SearchOptions;
+}
+
+const NO_SEARCH: SearchRequest = { searchTerm: '', searchOptions: DEFAULT_SEARCH_OPTIONS };
+
+interface PendingRequest {
+  // The logs the request was based on, to resolve result indexes
+  logs: LogMessage[];
+  // The search the worker applies while handling it
+  search: SearchRequest;
+}
+
+/**
+ * Filters, counts and searches a session's logs in a Web Worker. Only the
+ * logs added or evicted since the last update are sent over, so a new batch
+ * costs the worker just that batch's worth of filtering.
+ *
+ * The returned `highlight` is that of the search the worker last finished,
+ * so a pattern only reaches the main thread once the worker has run it
+ * over the logs shown within the time limit.
+ */
+export function useLogFilter({ sessionId, logs, levelFilters, searchTerm, searchOptions }: UseLogFilterOptions) {
+  const [filteredLogs, setFilteredLogs] = useState<LogMessage[]>([]);
+  // Positions in filteredLogs of logs containing a search match, newest first
+  const [matches, setMatches] = useState<number[]>([]);
+  const [levelCounts, setLevelCounts] = useState<Record<LogLevel, number>>(emptyCounts);
+  const [appliedSearch, setAppliedSearch] = useState(NO_SEARCH);
+  // The last search that ran over the time limit
+  const [timedOutSearch, setTimedOutSearch] = useState<SearchRequest | null>(null);
+  // Bumped to replace a worker that was stopped
+  const [workerGeneration, setWorkerGeneration] = useState(0);
+  const workerRef = useRef<Worker | null>(null);
+  const versionRef = useRef(0);
+  const pendingRef = useRef(new Map<number, PendingRequest>());
+  const sentRef = useRef<{ sessionId: string; logs: LogMessage[] } | null>(null);
+  // The search the worker has been told to apply
+  const searchRef = useRef(NO_SEARCH);
+  const watchdogRef = useRef<number | null>(null);
+  
+  // Times the oldest pending request, the one the worker is busy with, if
+  // it involves a search
+  const startWatchdog = useCallback(() => {
+    if (watchdogRef.current !== null) {
+      clearTimeout(watchdogRef.current);
+      watchdogRef.current = null;
+    }
+    
+    const oldest: PendingRequest | undefined = pendingRef.current.values().next().value;
+    if (!oldest?.search.searchTerm) return;
+    
+    watchdogRef.current = window.setTimeout(() => {
+      watchdogRef.current = null;
+      setTimedOutSearch(oldest.search);
+      setWorkerGeneration(generation => generation + 1);
+    }, SEARCH_TIME_LIMIT);
+  }, []);
+  
+  useEffect(() => {
+    const worker = new Worker(new URL('../workers/logFilter.worker.ts', import.meta.url), { type: 'module' });
+    const pending = pendingRef.current;
+    
+    worker.onmessage = (event: MessageEvent<LogFilterResult>) => {
+      const { version, filtered, matches, counts } = event.data;
+      const request = pending.get(version);
+      if (!request) return;
+      
+      pending.forEach((_, pendingVersion) => {
+        if (pendingVersion <= version) pending.delete(pendingVersion);
+      });
+      startWatchdog();
+      
+      const { logs: snapshot } = request;
+      const next = new Array<LogMessage>(filtered.length);
+      for (let i = 0; i < filtered.length; i++) {
+        next[i] = snapshot[filtered[i]];
+      }
+      
+      setFilteredLogs(next);
+      setMatches(Array.from(matches));
+      setLevelCounts(counts);
+      setAppliedSearch(request.search);
+    };
+    
+    workerRef.current = worker;
+    
+    return () => {
+      worker.terminate();
+      workerRef.current = null;
+      sentRef.current = null;
+      searchRef.current = NO_SEARCH;
+      pending.clear();
+      if (watchdogRef.current !== null) {
+        clearTimeout(watchdogRef.current);
+        watchdogRef.current = null;
+      }
+    };
+  }, [workerGeneration, startWatchdog]);
+  
+  const post = useCallback((request: LogFilterRequest, snapshot: LogMessage[]) => {
+    pendingRef.current.set(request.version, { logs: snapshot, search: searchRef.current });
+    workerRef.current?.postMessage(request);
+    if (watchdogRef.current === null) {
+      startWatchdog();
+    }
+  }, [startWatchdog]);
+  
+  // Send the worker only what changed in the session's logs
+  useEffect(() => {
+    if (!workerRef.current) return;
+    
+    const sent = sentRef.current;
+    const version = ++versionRef.current;
+    sentRef.current = { sessionId, logs };
+    
+    if (sent && sent.sessionId === sessionId && sent.logs.length > 0 && logs.length > 0) {
+      // New logs are prepended and evictions come off the end; anything
+      // else (clears, restored history, backfills) resends everything
+      const added = logs.indexOf(sent.logs[0]);
+      const removed = sent.logs.length + added - logs.length;
+      const isPrependOnly = added !== -1 && removed >= 0 && removed < sent.logs.length &&
+        logs[logs.length - 1] === sent.logs[sent.logs.length - 1 - removed];
+      
+      if (isPrependOnly) {
+        post({ type: 'update', version, added: logs.slice(0, added), removed }, logs);
+        return;
+      }
+    }
+    
+    post({ type: 'reset', version, logs }, logs);
+  }, [sessionId, logs, post, workerGeneration]);
+  
+  const isRelative = useMemo(() => parseQuery(searchTerm, searchOptions).isRelative, [searchTerm, searchOptions]);
+  // A search that ran over the time limit is left out until it is changed
+  const isTimedOut = timedOutSearch !== null &&
+    timedOutSearch.searchTerm === searchTerm && timedOutSearch.searchOptions === searchOptions;
+  
+  useEffect(() => {
+    const search = isTimedOut ? { ...NO_SEARCH, searchOptions } : { searchTerm, searchOptions };
+    
+    const filter = () => {
+      if (!workerRef.current || !sentRef.current) return;
+      
+      const version = ++versionRef.current;
+      searchRef.current = search;
+      post({ type: 'filter', version, levelFilters, ...search }, sentRef.current.logs);
+    };
+    
+    filter();
+    if (!isRelative) return;
+    
+    const interval = window.setInterval(filter, RELATIVE_QUERY_REFRESH_INTERVAL);
+    return () => clearInterval(interval);
+  }, [levelFilters, searchTerm, searchOptions, isRelative, isTimedOut, post, workerGeneration]);
+  
+  const highlight = useMemo(
+    () => parseQuery(appliedSearch.searchTerm, appliedSearch.searchOptions).highlight,
+    [appliedSearch]
+  );
+  
+  const searchError = useMemo<QueryError | null>(() => isTimedOut
+    ? {
+        message: `Search took over ${SEARCH_TIME_LIMIT / 1000} seconds and was stopped; try a simpler pattern`,
+        start: 0,
+        end: searchTerm.length
+      }
+    : null, [isTimedOut, searchTerm]);
+  
+  return { filteredLogs, matches, levelCounts, highlight, searchError };
+}
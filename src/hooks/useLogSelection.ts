@@ -0,0 +1,71 @@
+import { useState, useEffect, useCallback, useMemo, useRef } from 'react';
+import { LogMessage } from '@/types/log';
+
+export interface SelectModifiers {
+  // Shift: select the range from the last clicked row
+  range: boolean;
+  // Ctrl/Cmd: add to or remove from the selection
+  toggle: boolean;
+}
+
+/**
+ * Row selection over a session's filtered logs, with the usual click,
+ * shift-click and ctrl-click behaviour. Selected logs that get filtered out
+ * or evicted drop out of `selectedLogs`.
+ */
+export function useLogSelection(sessionId: string, logs: LogMessage[]) {
+  const [selectedIds, setSelectedIds] = useState<Set<string>>(() => new Set());
+  // The row ranges are measured from
+  const anchorRef = useRef<string | null>(null);
+  const logsRef = useRef(logs);
+  logsRef.current = logs;
+
+  const clearSelection = useCallback(() => {
+    anchorRef.current = null;
+    setSelectedIds(new Set());
+  }, []);
+
+  // Each session has its own rows
+  useEffect(() => {
+    clearSelection();
+  }, [sessionId, clearSelection]);
+
+  const selectLog = useCallback((log: LogMessage, { range, toggle }: SelectModifiers) => {
+    const logs = logsRef.current;
+    const anchorIndex = anchorRef.current === null
+      ? -1
+      : logs.findIndex(candidate => candidate.id === anchorRef.current);
+
+    if (range && anchorIndex !== -1) {
+      const index = logs.indexOf(log);
+      const rangeIds = logs
+        .slice(Math.min(index, anchorIndex), Math.max(index, anchorIndex) + 1)
+        .map(log => log.id);
+      setSelectedIds(prev => new Set(toggle ? [...prev, ...rangeIds] : rangeIds));
+      return;
+    }
+
+    anchorRef.current = log.id;
+    setSelectedIds(prev => {
+      if (toggle) {
+        const next = new Set(prev);
+        if (next.has(log.id)) {
+          next.delete(log.id);
+        } else {
+          next.add(log.id);
+        }
+        return next;
+      }
+      // Clicking the only selected row again deselects it
+      return prev.size === 1 && prev.has(log.id) ? new Set() : new Set([log.id]);
+    });
+  }, []);
+
+  // Newest first, like `logs`
+  const selectedLogs = useMemo(
+    () => selectedIds.size === 0 ? [] : logs.filter(log => selectedIds.has(log.id)),
+    [logs, selectedIds]
+  );
+
+  return { selectedIds, selectedLogs, selectLog, clearSelection };
+}
@@ -0,0 +1,698 @@
+
+import { useState, useEffect, useCallback, useMemo, useRef } from 'react';
+import {
+  BackfillConfig,
+  ConnectionDiagnostics,
+  ConnectionGap,
+  ConnectionStatus,
+  HealthCheckConfig,
+  LogMessage,
+  LogParserConfig,
+  LogRetention,
+  MalformedFrame,
+  ScheduledRetry,
+  TransportSetting
+} from '../types/log';
+import { toast } from '@/hooks/use-toast';
+import { DEFAULT_PARSER_CONFIG, ParsedFrame, createLogParser, parseRecords } from '@/lib/logParsers';
+import { decodeFrame } from '@/lib/frameDecoding';
+import { BackoffOptions, DEFAULT_BACKOFF, getReconnectDelay } from '@/lib/backoff';
+import {
+  LogTransport,
+  TransportAuth,
+  TransportCloseInfo,
+  openTransport,
+  readResponseBody,
+  resolveTransport
+} from '@/lib/transports';
+import { isAuthFailure, redactUrl } from '@/lib/streamAuth';
+import { buildBackfillUrl, getLogCursor, mergeLogsByTime, withQueryParam } from '@/lib/logGaps';
+import { DEFAULT_BACKFILL } from '@/lib/sessions';
+import { DEFAULT_RETENTION, applyRetention } from '@/lib/logRetention';
+import {
+  DEFAULT_HEALTH_CHECK,
+  EMPTY_DIAGNOSTICS,
+  RATE_WINDOW,
+  TrafficSample,
+  createPingFrame,
+  getFrameSize,
+  getRates,
+  isConnectionStale,
+  readPongId
+} from '@/lib/connectionHealth';
+
+// How many malformed frames are kept as samples, and how much of each
+const MAX_MALFORMED_SAMPLES = 5;
+const MAX_SAMPLE_LENGTH = 500;
+
+// How often age-based retention is re-applied when no new logs arrive
+const RETENTION_CHECK_INTERVAL = 5000;
+
+// How often diagnostics are sampled, and how many closes are remembered
+const DIAGNOSTICS_INTERVAL = 1000;
+const MAX_CLOSE_HISTORY = 20;
+
+const NO_AUTH: TransportAuth = {};
+
+interface UseLogStreamOptions {
+  url: string;
+  transport?: TransportSetting;
+  // Changing it reconnects, so keep its identity stable
+  auth?: TransportAuth;
+  autoReconnect?: boolean;
+  backoff?: BackoffOptions;
+  maxReconnectAttempts?: number;
+  autoShowToasts?: boolean;
+  pollingInterval?: number;
+  retention?: LogRetention;
+  parser?: LogParserConfig;
+  backfill?: BackfillConfig;
+  health?: HealthCheckConfig;
+  onLogs?: (logs: LogMessage[]) => void;
+}
+
+/**
+ * Streams a session's logs over its transport, buffering, parsing and
+ * retaining them, and reconnecting when the connection drops.
+ */
+export function useLogStream({
+  url,
+  transport = 'auto',
+  auth = NO_AUTH,
+  autoReconnect = true,
+  backoff = DEFAULT_BACKOFF,
+  maxReconnectAttempts = 10,
+  autoShowToasts = false, // Changed default to false
+  pollingInterval = 200,
+  retention = DEFAULT_RETENTION,
+  parser = DEFAULT_PARSER_CONFIG,
+  backfill = DEFAULT_BACKFILL,
+  health = DEFAULT_HEALTH_CHECK,
+  onLogs
+}: UseLogStreamOptions) {
+  const [logs, setLogs] = useState<LogMessage[]>([]);
+  const [evictedCount, setEvictedCount] = useState(0);
+  const [isPaused, setIsPaused] = useState(false);
+  const [bufferedCount, setBufferedCount] = useState(0);
+  const [status, setStatus] = useState<ConnectionStatus>('connecting');
+  const [errorMessage, setErrorMessage] = useState<string | undefined>();
+  // The retry waiting to happen, if any
+  const [nextRetry, setNextRetry] = useState<ScheduledRetry | null>(null);
+  const [gaps, setGaps] = useState<ConnectionGap[]>([]);
+  const [malformed, setMalformed] = useState<{ count: number; samples: MalformedFrame[] }>({ count: 0, samples: [] });
+  const [diagnostics, setDiagnostics] = useState<ConnectionDiagnostics>(EMPTY_DIAGNOSTICS);
+  const transportRef = useRef<LogTransport | null>(null);
+  const reconnectAttemptsRef = useRef(0);
+  const reconnectTimeoutRef = useRef<number | null>(null);
+  const backoffRef = useRef(backoff);
+  backoffRef.current = backoff;
+  const backfillRef = useRef(backfill);
+  backfillRef.current = backfill;
+  const authRef = useRef(auth);
+  authRef.current = auth;
+  // The newest log received, which a reconnect resumes from
+  const lastLogRef = useRef<LogMessage | null>(null);
+  // Set when an open connection drops, until the next one opens
+  const dropRef = useRef<{ from: string; cursor: string | null } | null>(null);
+  const nextGapIdRef = useRef(0);
+  const healthRef = useRef(health);
+  healthRef.current = health;
+  // Traffic since the last diagnostics sample, and the samples rates are
+  // averaged over
+  const trafficRef = useRef<TrafficSample>({ messages: 0, bytes: 0 });
+  const trafficSamplesRef = useRef<TrafficSample[]>([]);
+  const lastMessageAtRef = useRef<number | null>(null);
+  // When the current connection opened; null while not connected
+  const connectedAtRef = useRef<number | null>(null);
+  const latencyRef = useRef<number | null>(null);
+  const pingTimerRef = useRef<number | null>(null);
+  // The ping awaiting its pong
+  const pendingPingRef = useRef<{ id: number; sentAt: number } | null>(null);
+  const nextPingIdRef = useRef(0);
+  const isPausedRef = useRef(false);
+  const logBufferRef = useRef<LogMessage[]>([]);
+  // Ids of every log stored or waiting to be, so one sent again (such as a
+  // frame replayed after a reconnect) is dropped for as long as it is kept
+  const keptIdsRef = useRef(new Set<string>());
+  const duplicateCountRef = useRef(0);
+  // Logs received while paused, in arrival order, held until resume
+  const pausedLogsRef = useRef<LogMessage[]>([]);
+  const bufferedCountTimeoutRef = useRef<number | null>(null);
+  // Malformed frames seen since the last state update
+  const malformedRef = useRef<{ count: number; samples: MalformedFrame[] }>({ count: 0, samples: [] });
+  const malformedTimeoutRef = useRef<number | null>(null);
+  const processingRef = useRef(false);
+  // Binary frames decode asynchronously; frames wait here behind them so
+  // logs keep their arrival order
+  const frameQueueRef = useRef<Promise<void>>(Promise.resolve());
+  const pendingFramesRef = useRef(0);
+  // Mirrors `logs` so retention can be applied outside a state updater
+  const logsRef = useRef<LogMessage[]>([]);
+  // Read through a ref so changing retention doesn't force a reconnect
+  const retentionRef = useRef(retention);
+  retentionRef.current = retention;
+  const { maxEntries, maxAgeMinutes } = retention;
+  // Kept in a ref so a new callback identity doesn't force a reconnect
+  const onLogsRef = useRef(onLogs);
+  onLogsRef.current = onLogs;
+  // Switching formats applies to the next frame without reconnecting
+  const parseFrame = useMemo(() => createLogParser(parser), [parser]);
+  const parseFrameRef = useRef(parseFrame);
+  parseFrameRef.current = parseFrame;
+  
+  // Replace the stored logs, evicting whatever falls outside the retention limits
+  const storeLogs = useCallback((nextLogs: LogMessage[]) => {
+    const { logs: retained, evicted } = applyRetention(nextLogs, retentionRef.current);
+    for (let i = retained.length; i < nextLogs.length; i++) {
+      keptIdsRef.current.delete(nextLogs[i].id);
+    }
+    
+    if (retained !== logsRef.current) {
+      logsRef.current = retained;
+      setLogs(retained);
+    }
+    if (evicted > 0) {
+      setEvictedCount(count => count + evicted);
+    }
+  }, []);
+  
+  // Function to process log buffer with throttling
+  const processLogBuffer = useCallback(() => {
+    if (processingRef.current || logBufferRef.current.length === 0) return;
+    
+    processingRef.current = true;
+    
+    // Get logs from buffer; it is in arrival order and the store is newest first
+    const newLogs = logBufferRef.current.reverse();
+    logBufferRef.current = [];
+    
+    // Update logs with animation-friendly approach
+    storeLogs([...newLogs, ...logsRef.current]);
+    onLogsRef.current?.(newLogs);
+    
+    setTimeout(() => {
+      processingRef.current = false;
+      if (logBufferRef.current.length > 0) {
+        processLogBuffer();
+      }
+    }, pollingInterval);
+  }, [pollingInterval, storeLogs]);
+  
+  // Queue a received log for display, or hold it back while paused
+  const enqueueLog = useCallback((log: LogMessage) => {
+    if (keptIdsRef.current.has(log.id)) {
+      duplicateCountRef.current++;
+      return;
+    }
+    keptIdsRef.current.add(log.id);
+    lastLogRef.current = log;
+    
+    if (isPausedRef.current) {
+      pausedLogsRef.current.push(log);
+      
+      // Don't hold more than the session could keep anyway
+      const { maxEntries } = retentionRef.current;
+      if (maxEntries !== null && pausedLogsRef.current.length > maxEntries) {
+        keptIdsRef.current.delete(pausedLogsRef.current[0].id);
+        pausedLogsRef.current.shift();
+        setEvictedCount(count => count + 1);
+      }
+      
+      // Throttle count updates so a fast stream doesn't re-render per message
+      if (bufferedCountTimeoutRef.current === null) {
+        bufferedCountTimeoutRef.current = window.setTimeout(() => {
+          bufferedCountTimeoutRef.current = null;
+          setBufferedCount(pausedLogsRef.current.length);
+        }, pollingInterval);
+      }
+      return;
+    }
+    
+    logBufferRef.current.push(log);
+    
+    // Trigger processing if not already processing
+    if (!processingRef.current) {
+      processLogBuffer();
+    }
+  }, [pollingInterval, processLogBuffer]);
+  
+  // Count a frame that couldn't be parsed and keep a sample of it
+  const recordMalformed = useCallback((frame: string, error: string) => {
+    const pending = malformedRef.current;
+    pending.count++;
+    pending.samples = [
+      {
+        receivedAt: new Date().toISOString(),
+        error,
+        frame: frame.length > MAX_SAMPLE_LENGTH ? `${frame.slice(0, MAX_SAMPLE_LENGTH)}…` : frame
+      },
+      ...pending.samples
+    ].slice(0, MAX_MALFORMED_SAMPLES);
+    
+    if (malformedTimeoutRef.current !== null) return;
+    malformedTimeoutRef.current = window.setTimeout(() => {
+      malformedTimeoutRef.current = null;
+      const { count, samples } = malformedRef.current;
+      malformedRef.current = { count: 0, samples: [] };
+      setMalformed(prev => ({
+        count: prev.count + count,
+        samples: [...samples, ...prev.samples].slice(0, MAX_MALFORMED_SAMPLES)
+      }));
+    }, pollingInterval);
+  }, [pollingInterval]);
+  
+  const clearLogs = useCallback(() => {
+    logsRef.current = [];
+    keptIdsRef.current.clear();
+    setLogs([]);
+    setEvictedCount(0);
+    logBufferRef.current = [];
+    pausedLogsRef.current = [];
+    setBufferedCount(0);
+    malformedRef.current = { count: 0, samples: [] };
+    setMalformed({ count: 0, samples: [] });
+    setGaps([]);
+  }, []);
+
+  // Appends logs from before this connection (e.g. a cache) after the live ones
+  const restoreLogs = useCallback((olderLogs: LogMessage[]) => {
+    const restored = olderLogs.filter(log => !keptIdsRef.current.has(log.id));
+    duplicateCountRef.current += olderLogs.length - restored.length;
+    restored.forEach(log => keptIdsRef.current.add(log.id));
+    if (!lastLogRef.current && restored.length > 0) {
+      lastLogRef.current = restored[0];
+    }
+    storeLogs([...logsRef.current, ...restored]);
+  }, [storeLogs]);
+  
+  // Adds logs that belong between ones already shown, such as a backfill.
+  // Returns the ones that weren't already there.
+  const insertLogs = useCallback((received: LogMessage[]) => {
+    const inserted = received.filter(log => !keptIdsRef.current.has(log.id));
+    duplicateCountRef.current += received.length - inserted.length;
+    if (inserted.length === 0) return inserted;
+    
+    inserted.forEach(log => keptIdsRef.current.add(log.id));
+    storeLogs(mergeLogsByTime(logsRef.current, inserted));
+    onLogsRef.current?.(inserted);
+    return inserted;
+  }, [storeLogs]);
+  
+  // Fetches the logs missed during `gap` from the history endpoint
+  const backfillGap = useCallback(async (gap: ConnectionGap, cursor: string | null) => {
+    const updateGap = (update: Partial<ConnectionGap>) => {
+      setGaps(prev => prev.map(existing => existing.id === gap.id ? { ...existing, ...update } : existing));
+    };
+    
+    try {
+      const response = await fetch(buildBackfillUrl(backfillRef.current.historyUrl, gap, cursor), {
+        cache: 'no-store',
+        headers: authRef.current.headers
+      });
+      if (!response.ok) {
+        throw new Error(`History request failed (HTTP ${response.status})`);
+      }
+      
+      const decoded = await decodeFrame(await readResponseBody(response));
+      const parsed = decoded.kind === 'text'
+        ? parseFrameRef.current(decoded.text)
+        : parseRecords(decoded.records);
+      parsed.errors.forEach(({ text, error }) => recordMalformed(text, error));
+      
+      // Only what falls inside the gap; the edges were already received
+      const from = Date.parse(gap.from);
+      const to = Date.parse(gap.to);
+      const missing = parsed.logs.filter(log => {
+        const time = Date.parse(log.time);
+        return time > from && time <= to;
+      });
+      
+      const inserted = insertLogs(missing);
+      updateGap({ backfill: 'done', backfilledCount: inserted.length });
+    } catch (error) {
+      console.error('Backfill failed:', error);
+      updateGap({ backfill: 'failed' });
+    }
+  }, [insertLogs, recordMalformed]);
+  
+  // Re-apply retention when its limits change, and keep ageing logs out
+  // even while the stream is quiet
+  useEffect(() => {
+    storeLogs(logsRef.current);
+    
+    if (maxAgeMinutes === null) return;
+    
+    const interval = window.setInterval(() => storeLogs(logsRef.current), RETENTION_CHECK_INTERVAL);
+    return () => clearInterval(interval);
+  }, [storeLogs, maxEntries, maxAgeMinutes]);
+
+  // Freeze the view; incoming logs keep being received and are held back
+  const pause = useCallback(() => {
+    isPausedRef.current = true;
+    setIsPaused(true);
+  }, []);
+  
+  // Unfreeze the view, either merging the logs held back while paused or
+  // dropping them
+  const resume = useCallback((discardBuffered = false) => {
+    const buffered = pausedLogsRef.current;
+    pausedLogsRef.current = [];
+    isPausedRef.current = false;
+    setIsPaused(false);
+    setBufferedCount(0);
+    
+    if (!discardBuffered && buffered.length > 0) {
+      logBufferRef.current = logBufferRef.current.concat(buffered);
+      processLogBuffer();
+    }
+  }, [processLogBuffer]);
+
+  const stopPinging = useCallback(() => {
+    if (pingTimerRef.current !== null) {
+      clearInterval(pingTimerRef.current);
+      pingTimerRef.current = null;
+    }
+    pendingPingRef.current = null;
+  }, []);
+  
+  // Ping now and then to measure latency, if the session asks for it and
+  // the transport can send
+  const startPinging = useCallback(() => {
+    stopPinging();
+    const { pingIntervalSeconds } = healthRef.current;
+    if (pingIntervalSeconds === null || !transportRef.current?.send) return;
+    
+    const ping = () => {
+      const id = nextPingIdRef.current++;
+      pendingPingRef.current = { id, sentAt: Date.now() };
+      transportRef.current?.send?.(createPingFrame(id));
+    };
+    ping();
+    pingTimerRef.current = window.setInterval(ping, pingIntervalSeconds * 1000);
+  }, [stopPinging]);
+
+  const connect = useCallback(() => {
+    transportRef.current?.close();
+    stopPinging();
+    connectedAtRef.current = null;
+    if (reconnectTimeoutRef.current !== null) {
+      clearTimeout(reconnectTimeoutRef.current);
+      reconnectTimeoutRef.current = null;
+    }
+    setNextRetry(null);
+    
+    setStatus('connecting');
+    setErrorMessage(undefined);
+    
+    const kind = resolveTransport(url, transport);
+    let opened = false;
+    if (typeof kind !== 'string') {
+      setStatus('disconnected');
+      setErrorMessage(kind.error);
+      console.error('Invalid log stream URL:', kind.error);
+      return;
+    }
+    
+    const handleParsed = (parsed: ParsedFrame) => {
+      parsed.errors.forEach(({ text, error }) => recordMalformed(text, error));
+      // Add to buffer instead of directly updating state
+      parsed.logs.forEach(log => enqueueLog(log));
+    };
+    
+    const handleFrame = (data: string | ArrayBuffer) => {
+      if (typeof data === 'string') {
+        const pongId = readPongId(data);
+        if (pongId !== null) {
+          const ping = pendingPingRef.current;
+          if (ping?.id === pongId) {
+            latencyRef.current = Date.now() - ping.sentAt;
+            pendingPingRef.current = null;
+          }
+          return;
+        }
+      }
+      
+      trafficRef.current.messages++;
+      trafficRef.current.bytes += getFrameSize(data);
+      lastMessageAtRef.current = Date.now();
+      
+      // Text frames are handled straight away unless a binary one is
+      // still being decoded ahead of them
+      if (typeof data === 'string' && pendingFramesRef.current === 0) {
+        handleParsed(parseFrameRef.current(data));
+        return;
+      }
+      
+      const receivedAt = new Date();
+      pendingFramesRef.current++;
+      frameQueueRef.current = frameQueueRef.current
+        .then(() => decodeFrame(data))
+        .then(decoded => handleParsed(decoded.kind === 'text'
+          ? parseFrameRef.current(decoded.text, receivedAt)
+          : parseRecords(decoded.records, receivedAt)))
+        .catch(error => {
+          const frame = typeof data === 'string' ? data : `<${data.byteLength} binary bytes>`;
+          recordMalformed(frame, `Could not decode frame: ${(error as Error).message}`);
+        })
+        .finally(() => {
+          pendingFramesRef.current--;
+        });
+    };
+    
+    const scheduleReconnect = () => {
+      const attempt = reconnectAttemptsRef.current + 1;
+      const delay = getReconnectDelay(attempt, backoffRef.current);
+      setNextRetry({ attempt, at: Date.now() + delay });
+      
+      reconnectTimeoutRef.current = window.setTimeout(() => {
+        reconnectAttemptsRef.current = attempt;
+        connect();
+      }, delay);
+      return delay;
+    };
+    
+    const handleClose = (info: TransportCloseInfo) => {
+      const { code, message } = info;
+      console.log('Log stream closed', { code, message });
+      transportRef.current = null;
+      setStatus('disconnected');
+      stopPinging();
+      connectedAtRef.current = null;
+      setDiagnostics(prev => ({
+        ...prev,
+        isStale: false,
+        closes: [{ at: new Date().toISOString(), code, message }, ...prev.closes].slice(0, MAX_CLOSE_HISTORY)
+      }));
+      
+      // Remember where the stream stopped; failed retries keep the first drop
+      if (opened && !dropRef.current) {
+        const lastLog = lastLogRef.current;
+        dropRef.current = {
+          from: lastLog?.time ?? new Date().toISOString(),
+          cursor: lastLog ? getLogCursor(lastLog) : null
+        };
+      }
+      
+      // Retrying with the same credentials would only be turned away again
+      if (isAuthFailure(info)) {
+        setStatus('unauthorized');
+        setErrorMessage(message || 'The server rejected the credentials');
+        return;
+      }
+      
+      // Set more descriptive error message based on close code
+      if (code === 1006) {
+        setErrorMessage('Connection closed abnormally');
+      } else if (message) {
+        setErrorMessage(message);
+      } else if (code !== undefined && code !== 1000) {
+        setErrorMessage(`Connection closed (code: ${code})`);
+      }
+      
+      if (autoReconnect && reconnectAttemptsRef.current < maxReconnectAttempts) {
+        const delay = scheduleReconnect();
+        
+        if (autoShowToasts) {
+          toast({
+            title: "Disconnected",
+            description: `Reconnecting in ${Math.ceil(delay / 1000)} seconds...`,
+            variant: "destructive"
+          });
+        }
+      } else if (reconnectAttemptsRef.current >= maxReconnectAttempts) {
+        setErrorMessage(`Max reconnection attempts reached (${maxReconnectAttempts})`);
+        if (autoShowToasts) {
+          toast({
+            title: "Connection Failed",
+            description: "Max reconnection attempts reached. Use Reconnect to try again.",
+            variant: "destructive"
+          });
+        }
+      }
+    };
+    
+    try {
+      const { resumeParam } = backfillRef.current;
+      const streamUrl = resumeParam && lastLogRef.current
+        ? withQueryParam(url, resumeParam, getLogCursor(lastLogRef.current))
+        : url;
+      
+      console.log(`Connecting to log stream (${kind}):`, redactUrl(streamUrl));
+      transportRef.current = openTransport(kind, streamUrl, {
+        onOpen: () => {
+          console.log('Log stream connected');
+          opened = true;
+          setStatus('connected');
+          setErrorMessage(undefined);
+          reconnectAttemptsRef.current = 0;
+          connectedAtRef.current = Date.now();
+          startPinging();
+          
+          const drop = dropRef.current;
+          if (drop) {
+            dropRef.current = null;
+            const gap: ConnectionGap = {
+              id: nextGapIdRef.current++,
+              from: drop.from,
+              to: new Date().toISOString(),
+              backfill: backfillRef.current.historyUrl ? 'loading' : 'none',
+              backfilledCount: 0
+            };
+            setGaps(prev => [...prev, gap]);
+            
+            if (gap.backfill === 'loading') {
+              backfillGap(gap, drop.cursor);
+            }
+          }
+          
+          // Display a toast notification when successfully connected
+          if (autoShowToasts) {
+            toast({
+              title: "Connected",
+              description: "Successfully connected to log stream",
+            });
+          }
+        },
+        onFrame: handleFrame,
+        getCursor: () => lastLogRef.current ? getLogCursor(lastLogRef.current) : null,
+        onError: message => {
+          console.error('Log stream error:', message);
+          setErrorMessage(message);
+        },
+        onClose: handleClose
+      }, auth);
+    } catch (error) {
+      console.error('Error opening log stream:', error);
+      setStatus('disconnected');
+      setErrorMessage('Failed to establish connection');
+      
+      if (autoReconnect && reconnectAttemptsRef.current < maxReconnectAttempts) {
+        scheduleReconnect();
+      }
+    }
+  }, [
+    autoReconnect, 
+    autoShowToasts,
+    maxReconnectAttempts, 
+    url, 
+    transport,
+    auth,
+    enqueueLog,
+    recordMalformed,
+    backfillGap,
+    startPinging,
+    stopPinging
+  ]);
+  
+  // Retry straight away, starting the backoff over
+  const reconnectNow = useCallback(() => {
+    reconnectAttemptsRef.current = 0;
+    connect();
+  }, [connect]);
+  
+  // Cancel the pending retry and stay disconnected until reconnectNow
+  const stopRetrying = useCallback(() => {
+    if (reconnectTimeoutRef.current !== null) {
+      clearTimeout(reconnectTimeoutRef.current);
+      reconnectTimeoutRef.current = null;
+    }
+    setNextRetry(null);
+  }, []);
+  
+  // A new target starts over: its own retry count, and no gap, backfill or
+  // resume cursor carried over from the old stream. Kept ids stay, as they
+  // belong to the logs still shown.
+  useEffect(() => {
+    return () => {
+      reconnectAttemptsRef.current = 0;
+      dropRef.current = null;
+      lastLogRef.current = null;
+    };
+  }, [url, transport, auth]);
+  
+  useEffect(() => {
+    connect();
+    
+    return () => {
+      transportRef.current?.close();
+      transportRef.current = null;
+      stopPinging();
+      
+      if (reconnectTimeoutRef.current) {
+        clearTimeout(reconnectTimeoutRef.current);
+      }
+    };
+  }, [connect, stopPinging]);
+  
+  // Sample throughput, latency and staleness for the diagnostics panel
+  useEffect(() => {
+    const interval = window.setInterval(() => {
+      const samples = [...trafficSamplesRef.current, trafficRef.current].slice(-RATE_WINDOW);
+      trafficSamplesRef.current = samples;
+      trafficRef.current = { messages: 0, bytes: 0 };
+      
+      const next = {
+        ...getRates(samples),
+        lastMessageAt: lastMessageAtRef.current,
+        latencyMs: latencyRef.current,
+        isStale: isConnectionStale(connectedAtRef.current, lastMessageAtRef.current, healthRef.current.staleAfterSeconds),
+        duplicateCount: duplicateCountRef.current
+      };
+      
+      // Skip the re-render while nothing has changed, e.g. a quiet stream
+      setDiagnostics(prev => (Object.keys(next) as (keyof typeof next)[]).every(key => prev[key] === next[key])
+        ? prev
+        : { ...prev, ...next });
+    }, DIAGNOSTICS_INTERVAL);
+    
+    return () => clearInterval(interval);
+  }, []);
+  
+  useEffect(() => {
+    return () => {
+      if (malformedTimeoutRef.current !== null) {
+        clearTimeout(malformedTimeoutRef.current);
+      }
+    };
+  }, []);
+  
+  return {
+    logs,
+    evictedCount,
+    status,
+    errorMessage,
+    nextRetry,
+    gaps,
+    reconnectNow,
+    stopRetrying,
+    clearLogs,
+    restoreLogs,
+    pause,
+    resume,
+    isPaused,
+    bufferedCount,
+    malformedCount: malformed.count,
+    malformedSamples: malformed.samples,
+    diagnostics
+  };
+}
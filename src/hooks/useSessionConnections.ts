@@ -0,0 +1,110 @@
+import { useState, useEffect, useCallback, useRef } from 'react';
+import { LogMessage, SessionConnectionState } from '@/types/log';
+import { SessionConnectionHandle } from '@/components/SessionConnection';
+import { isErrorLevel } from '@/lib/logLevels';
+import { EMPTY_DIAGNOSTICS } from '@/lib/connectionHealth';
+
+const initialConnectionState: SessionConnectionState = {
+  status: 'connecting',
+  nextRetry: null,
+  isPaused: false,
+  bufferedCount: 0,
+  unreadCount: 0,
+  errorCount: 0,
+  evictedCount: 0,
+  gaps: [],
+  malformedCount: 0,
+  malformedSamples: [],
+  diagnostics: EMPTY_DIAGNOSTICS
+};
+
+/**
+ * Tracks the state of every session's connection (one connection per session,
+ * each owned by a mounted `SessionConnection`) and exposes per-session
+ * controls, unread counts and error counts.
+ */
+export function useSessionConnections(activeSessionId: string) {
+  const [connections, setConnections] = useState<Record<string, SessionConnectionState>>({});
+  const handlesRef = useRef<Record<string, SessionConnectionHandle | null>>({});
+  const activeSessionIdRef = useRef(activeSessionId);
+  activeSessionIdRef.current = activeSessionId;
+  
+  const updateConnection = useCallback((
+    sessionId: string,
+    update: (connection: SessionConnectionState) => Partial<SessionConnectionState>
+  ) => {
+    setConnections(prev => {
+      const connection = prev[sessionId] || initialConnectionState;
+      return { ...prev, [sessionId]: { ...connection, ...update(connection) } };
+    });
+  }, []);
+  
+  const handleConnectionChange = useCallback((sessionId: string, update: Partial<SessionConnectionState>) => {
+    updateConnection(sessionId, () => update);
+  }, [updateConnection]);
+  
+  const handleLogsReceived = useCallback((sessionId: string, logs: LogMessage[]) => {
+    const isActive = sessionId === activeSessionIdRef.current;
+    const errors = logs.filter(log => isErrorLevel(log.level)).length;
+    
+    updateConnection(sessionId, connection => ({
+      unreadCount: isActive ? 0 : connection.unreadCount + logs.length,
+      errorCount: connection.errorCount + errors
+    }));
+  }, [updateConnection]);
+  
+  // Opening a tab marks its logs as read
+  useEffect(() => {
+    updateConnection(activeSessionId, () => ({ unreadCount: 0 }));
+  }, [activeSessionId, updateConnection]);
+  
+  const registerHandle = useCallback((sessionId: string) => (handle: SessionConnectionHandle | null) => {
+    handlesRef.current[sessionId] = handle;
+  }, []);
+  
+  const getConnection = useCallback((sessionId: string) => {
+    return connections[sessionId] || initialConnectionState;
+  }, [connections]);
+  
+  const clearSession = useCallback((sessionId: string) => {
+    handlesRef.current[sessionId]?.clearLogs();
+    updateConnection(sessionId, () => ({ unreadCount: 0, errorCount: 0 }));
+  }, [updateConnection]);
+  
+  const reconnect = useCallback((sessionId: string) => {
+    handlesRef.current[sessionId]?.reconnectNow();
+  }, []);
+  
+  const stopRetrying = useCallback((sessionId: string) => {
+    handlesRef.current[sessionId]?.stopRetrying();
+  }, []);
+  
+  const pause = useCallback((sessionId: string) => {
+    handlesRef.current[sessionId]?.pause();
+  }, []);
+  
+  const resume = useCallback((sessionId: string, discardBuffered = false) => {
+    handlesRef.current[sessionId]?.resume(discardBuffered);
+  }, []);
+  
+  const removeConnection = useCallback((sessionId: string) => {
+    delete handlesRef.current[sessionId];
+    setConnections(prev => {
+      const { [sessionId]: _removed, ...rest } = prev;
+      return rest;
+    });
+  }, []);
+  
+  return {
+    getConnection,
+    registerHandle,
+    handleConnectionChange,
+    handleLogsReceived,
+    clearSession,
+    reconnect,
+    stopRetrying,
+    pause,
+    resume,
+    removeConnection
+  };
+}
@@ -0,0 +1,28 @@
+export interface BackoffOptions {
+  // Delay before the first retry
+  initialDelay: number;
+  // No retry waits longer than this
+  maxDelay: number;
+  multiplier: number;
+  // Fraction of the delay randomly added or taken off, so sessions that
+  // dropped together don't all retry at the same moment
+  jitter: number;
+}
+
+export const DEFAULT_BACKOFF: BackoffOptions = {
+  initialDelay: 1000,
+  maxDelay: 60_000,
+  multiplier: 2,
+  jitter: 0.3
+};
+
+/**
+ * Delay in ms before reconnect attempt number `attempt` (1 for the first
+ * retry): exponential growth from `initialDelay`, jittered, capped at
+ * `maxDelay`.
+ */
+export function getReconnectDelay(attempt: number, options: BackoffOptions = DEFAULT_BACKOFF, random = Math.random) {
+  const base = Math.min(options.maxDelay, options.initialDelay * options.multiplier ** Math.max(0, attempt - 1));
+  const jittered = base * (1 + options.jitter * (random() * 2 - 1));
+  return Math.round(Math.min(options.maxDelay, Math.max(0, jittered)));
+}
@@ -0,0 +1,31 @@
+import { LogBookmark, LogMessage } from '@/types/log';
+
+export function createBookmark(log: LogMessage, note = ''): LogBookmark {
+  return { log, note, createdAt: new Date().toISOString() };
+}
+
+// Bookmarks `logs`, leaving any that already are (and their notes) alone
+export function addBookmarks(bookmarks: LogBookmark[], logs: LogMessage[]): LogBookmark[] {
+  const existing = new Set(bookmarks.map(bookmark => bookmark.log.id));
+  const added = logs.filter(log => !existing.has(log.id)).map(log => createBookmark(log));
+  return added.length > 0 ? [...bookmarks, ...added] : bookmarks;
+}
+
+export function toggleBookmark(bookmarks: LogBookmark[], log: LogMessage): LogBookmark[] {
+  return bookmarks.some(bookmark => bookmark.log.id === log.id)
+    ? bookmarks.filter(bookmark => bookmark.log.id !== log.id)
+    : [...bookmarks, createBookmark(log)];
+}
+
+export function setBookmarkNote(bookmarks: LogBookmark[], logId: string, note: string): LogBookmark[] {
+  return bookmarks.map(bookmark => bookmark.log.id === logId ? { ...bookmark, note } : bookmark);
+}
+
+export function removeBookmark(bookmarks: LogBookmark[], logId: string): LogBookmark[] {
+  return bookmarks.filter(bookmark => bookmark.log.id !== logId);
+}
+
+// Oldest first, the order they happened in
+export function sortBookmarks(bookmarks: LogBookmark[]): LogBookmark[] {
+  return [...bookmarks].sort((a, b) => Date.parse(a.log.time) - Date.parse(b.log.time));
+}
@@ -0,0 +1,82 @@
+import { ConnectionDiagnostics, HealthCheckConfig } from '@/types/log';
+
+export const DEFAULT_HEALTH_CHECK: HealthCheckConfig = {
+  staleAfterSeconds: 30,
+  pingIntervalSeconds: null
+};
+
+export const EMPTY_DIAGNOSTICS: ConnectionDiagnostics = {
+  messagesPerSecond: 0,
+  bytesPerSecond: 0,
+  lastMessageAt: null,
+  latencyMs: null,
+  isStale: false,
+  closes: [],
+  duplicateCount: 0
+};
+
+// Rates are averaged over this many one-second samples
+export const RATE_WINDOW = 5;
+
+export interface TrafficSample {
+  messages: number;
+  bytes: number;
+}
+
+export function getRates(samples: TrafficSample[]) {
+  if (samples.length === 0) {
+    return { messagesPerSecond: 0, bytesPerSecond: 0 };
+  }
+
+  const total = samples.reduce(
+    (sum, sample) => ({ messages: sum.messages + sample.messages, bytes: sum.bytes + sample.bytes }),
+    { messages: 0, bytes: 0 }
+  );
+  return {
+    messagesPerSecond: total.messages / samples.length,
+    bytesPerSecond: total.bytes / samples.length
+  };
+}
+
+// Size of a frame on the wire; text is counted in UTF-16 units, which is
+// close enough for a throughput figure
+export const getFrameSize = (data: string | ArrayBuffer) =>
+  typeof data === 'string' ? data.length : data.byteLength;
+
+export const createPingFrame = (id: number) => JSON.stringify({ type: 'ping', id });
+
+/**
+ * The id echoed by a pong frame, or null when `frame` is anything else.
+ * Cheap for ordinary log frames, which are never parsed here.
+ */
+export function readPongId(frame: string): number | null {
+  if (frame.length > 100 || !frame.includes('"pong"')) return null;
+
+  try {
+    const data = JSON.parse(frame);
+    return data?.type === 'pong' && typeof data.id === 'number' ? data.id : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Whether a connection open since `connectedAt` has gone quiet: nothing
+ * received since then or since `lastMessageAt` for `staleAfterSeconds`.
+ */
+export function isConnectionStale(
+  connectedAt: number | null,
+  lastMessageAt: number | null,
+  staleAfterSeconds: number | null,
+  now = Date.now()
+) {
+  if (connectedAt === null || staleAfterSeconds === null) return false;
+  const lastActivity = Math.max(connectedAt, lastMessageAt ?? 0);
+  return now - lastActivity > staleAfterSeconds * 1000;
+}
+
+export function formatBytes(bytes: number) {
+  if (bytes < 1024) return `${Math.round(bytes)} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  return `${(bytes / 1024 / 1024).toFixed(1)} MB`;
+}
@@ -0,0 +1,91 @@
+import { FileImportState, LogMessage, LogParserConfig } from '@/types/log';
+import { DEFAULT_PARSER_CONFIG, ParsedFrame, createChunkParser, detectLogFormat } from '@/lib/logParsers';
+import { isGzip } from '@/lib/frameDecoding';
+
+export const IMPORT_FILE_ACCEPT = '.log,.txt,.json,.jsonl,.ndjson,.gz';
+
+export type FileImportProgress = Pick<FileImportState, 'bytesRead' | 'totalBytes' | 'logCount' | 'malformedCount' | 'duplicateCount'>;
+
+interface ImportLogFileOptions {
+  // Detected from the start of the file when not given
+  parser?: LogParserConfig;
+  signal?: AbortSignal;
+  // Called after every chunk with the logs it held, in file order
+  onProgress: (logs: LogMessage[], progress: FileImportProgress) => void;
+}
+
+// Passes bytes through unchanged, counting them on the way
+function countBytes(onBytes: (count: number) => void) {
+  return new TransformStream<Uint8Array, Uint8Array>({
+    transform(chunk, controller) {
+      onBytes(chunk.byteLength);
+      controller.enqueue(chunk);
+    }
+  });
+}
+
+/**
+ * Reads a log file a chunk at a time, gunzipping it when it is gzipped,
+ * and parses it through the same parsers live streams use. Resolves with
+ * the parser used once the whole file is read; rejects with an AbortError
+ * if `signal` aborts first.
+ */
+export async function importLogFile(
+  file: File,
+  { parser, signal, onProgress }: ImportLogFileOptions
+): Promise<{ parser: LogParserConfig; progress: FileImportProgress }> {
+  const progress: FileImportProgress = {
+    bytesRead: 0,
+    totalBytes: file.size,
+    logCount: 0,
+    malformedCount: 0,
+    duplicateCount: 0
+  };
+  const head = new Uint8Array(await file.slice(0, 2).arrayBuffer());
+
+  let stream = file.stream().pipeThrough(countBytes(count => {
+    progress.bytesRead += count;
+  }));
+  if (isGzip(head)) {
+    stream = stream.pipeThrough(new DecompressionStream('gzip'));
+  }
+  const reader = stream.pipeThrough(new TextDecoderStream()).getReader();
+
+  let chunkParser = parser ? createChunkParser(parser) : null;
+  let usedParser = parser;
+  // Only records carrying an id can repeat one; see getLogId
+  const seenIds = new Set<string>();
+  const report = ({ logs, errors }: ParsedFrame) => {
+    const unique = logs.filter(log => !seenIds.has(log.id));
+    unique.forEach(log => seenIds.add(log.id));
+    progress.logCount += unique.length;
+    progress.malformedCount += errors.length;
+    progress.duplicateCount += logs.length - unique.length;
+    onProgress(unique, { ...progress });
+  };
+
+  try {
+    while (true) {
+      if (signal?.aborted) {
+        throw new DOMException('Import cancelled', 'AbortError');
+      }
+
+      const { done, value } = await reader.read();
+      if (done) break;
+
+      if (!chunkParser) {
+        usedParser = detectLogFormat(value);
+        chunkParser = createChunkParser(usedParser);
+      }
+      report(chunkParser.push(value));
+    }
+
+    if (chunkParser) {
+      report(chunkParser.end());
+    }
+  } finally {
+    reader.cancel().catch(() => {});
+  }
+
+  return { parser: usedParser ?? DEFAULT_PARSER_CONFIG, progress };
+}
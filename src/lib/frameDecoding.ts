@@ -0,0 +1,41 @@
+import { decode } from '@msgpack/msgpack';
+
+/**
+ * Binary frames carry either MessagePack or gzip-compressed data. A gzip
+ * payload is text in the session's format, or MessagePack when it doesn't
+ * decode as text.
+ */
+
+export type DecodedFrame =
+  | { kind: 'text'; text: string }
+  | { kind: 'records'; records: unknown };
+
+export const isGzip = (bytes: Uint8Array) => bytes.length >= 2 && bytes[0] === 0x1f && bytes[1] === 0x8b;
+
+const textDecoder = new TextDecoder();
+
+async function gunzip(bytes: Uint8Array): Promise<Uint8Array> {
+  const stream = new Blob([bytes]).stream().pipeThrough(new DecompressionStream('gzip'));
+  return new Uint8Array(await new Response(stream).arrayBuffer());
+}
+
+function decodeBytes(bytes: Uint8Array): DecodedFrame {
+  // Every supported text format starts with an ASCII character, while
+  // MessagePack maps and arrays start with a type byte of 0x80 or above
+  if (bytes.length > 0 && bytes[0] >= 0x80) {
+    return { kind: 'records', records: decode(bytes) };
+  }
+  return { kind: 'text', text: textDecoder.decode(bytes) };
+}
+
+export async function decodeFrame(data: string | ArrayBuffer | Blob): Promise<DecodedFrame> {
+  if (typeof data === 'string') {
+    return { kind: 'text', text: data };
+  }
+
+  let bytes = new Uint8Array(data instanceof Blob ? await data.arrayBuffer() : data);
+  if (isGzip(bytes)) {
+    bytes = await gunzip(bytes);
+  }
+  return decodeBytes(bytes);
+}
@@ -0,0 +1,82 @@
+import { LogMessage } from '@/types/log';
+import { withLogId } from '@/lib/logIds';
+
+const DB_NAME = 'log-compass';
+const DB_VERSION = 1;
+const STORE_NAME = 'recentLogs';
+
+// Only the most recent logs of each session survive a reload
+export const MAX_CACHED_LOGS = 2000;
+
+interface CachedLogs {
+  sessionId: string;
+  logs: LogMessage[];
+  updatedAt: number;
+}
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+function openDb() {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+
+      request.onupgradeneeded = () => {
+        request.result.createObjectStore(STORE_NAME, { keyPath: 'sessionId' });
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        dbPromise = null;
+        reject(request.error);
+      };
+    });
+  }
+
+  return dbPromise;
+}
+
+function runTransaction<T>(
+  mode: IDBTransactionMode,
+  operation: (store: IDBObjectStore) => IDBRequest<T>
+): Promise<T> {
+  return openDb().then(db => new Promise<T>((resolve, reject) => {
+    const transaction = db.transaction(STORE_NAME, mode);
+    const request = operation(transaction.objectStore(STORE_NAME));
+
+    transaction.oncomplete = () => resolve(request.result);
+    transaction.onerror = () => reject(transaction.error);
+  }));
+}
+
+/** Loads a session's cached logs, newest first. Resolves to [] on any failure. */
+export async function loadCachedLogs(sessionId: string): Promise<LogMessage[]> {
+  try {
+    const cached = await runTransaction<CachedLogs | undefined>('readonly', store => store.get(sessionId));
+    return cached?.logs.map(withLogId) ?? [];
+  } catch (e) {
+    console.error('Failed to load cached logs:', e);
+    return [];
+  }
+}
+
+export async function saveCachedLogs(sessionId: string, logs: LogMessage[]) {
+  const entry: CachedLogs = {
+    sessionId,
+    logs: logs.slice(0, MAX_CACHED_LOGS),
+    updatedAt: Date.now()
+  };
+
+  try {
+    await runTransaction('readwrite', store => store.put(entry));
+  } catch (e) {
+    console.error('Failed to cache logs:', e);
+  }
+}
+
+export async function deleteCachedLogs(sessionId: string) {
+  try {
+    await runTransaction('readwrite', store => store.delete(sessionId));
+  } catch (e) {
+    console.error('Failed to delete cached logs:', e);
+  }
+}
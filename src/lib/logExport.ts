@@ -0,0 +1,133 @@
+import { LogBookmark, LogMessage } from '@/types/log';
+import { formatFieldValue, getExtraField } from '@/lib/logFields';
+
+export type ExportFormat = 'jsonl' | 'csv' | 'text';
+
+export interface LogExportOptions {
+  format: ExportFormat;
+  // CSV only: core fields, bookmark columns and extra field names, in
+  // column order
+  columns: string[];
+  // The session's bookmarks by log id; bookmarked logs are exported with
+  // their notes
+  bookmarks?: Map<string, LogBookmark>;
+}
+
+export const EXPORT_FORMATS: { format: ExportFormat; label: string; extension: string; mimeType: string }[] = [
+  { format: 'jsonl', label: 'JSON Lines', extension: 'jsonl', mimeType: 'application/x-ndjson' },
+  { format: 'csv', label: 'CSV', extension: 'csv', mimeType: 'text/csv' },
+  { format: 'text', label: 'Text', extension: 'log', mimeType: 'text/plain' }
+];
+
+export const CORE_EXPORT_COLUMNS = ['id', 'time', 'level', 'name', 'function', 'line', 'message'];
+
+export const BOOKMARK_EXPORT_COLUMNS = ['bookmarked', 'note'];
+
+// Rows serialized between pauses, so a large export doesn't freeze the page
+const EXPORT_BATCH_SIZE = 5000;
+
+function getColumnValue(log: LogMessage, column: string, bookmark: LogBookmark | undefined): string {
+  if (column === 'bookmarked') return bookmark ? 'true' : '';
+  if (column === 'note') return bookmark?.note ?? '';
+  if (CORE_EXPORT_COLUMNS.includes(column)) {
+    return String(log[column as keyof LogMessage] ?? '');
+  }
+  const value = getExtraField(log, column);
+  return value === undefined ? '' : formatFieldValue(value);
+}
+
+function escapeCsv(value: string) {
+  return /[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+}
+
+/**
+ * One log as a line of the export, without the trailing newline. Text
+ * exports look like Python's logging output with extra fields appended.
+ */
+export function formatLogForExport(log: LogMessage, { format, columns, bookmarks }: LogExportOptions): string {
+  const bookmark = bookmarks?.size ? bookmarks.get(log.id) : undefined;
+
+  switch (format) {
+    case 'csv':
+      return columns.map(column => escapeCsv(getColumnValue(log, column, bookmark))).join(',');
+    case 'text': {
+      const extra = Object.entries(log.extra ?? {})
+        .map(([key, value]) => ` ${key}=${JSON.stringify(value)}`)
+        .join('');
+      const note = bookmark ? `  # bookmark${bookmark.note ? `: ${bookmark.note}` : ''}` : '';
+      return `${log.time} ${log.level.padEnd(8)} ${log.name}:${log.function}:${log.line} - ${log.message}${extra}${note}`;
+    }
+    default:
+      return JSON.stringify(bookmark ? { ...log, bookmark: { note: bookmark.note, createdAt: bookmark.createdAt } } : log);
+  }
+}
+
+// What comes before the first log: the header row for CSV
+function getExportHeader({ format, columns }: LogExportOptions) {
+  return format === 'csv' ? `${columns.map(escapeCsv).join(',')}\n` : '';
+}
+
+// The File System Access API isn't in TypeScript's DOM types yet
+type SaveFilePicker = (options: {
+  suggestedName: string;
+  types: { description: string; accept: Record<string, string[]> }[];
+}) => Promise<FileSystemFileHandle>;
+
+const nextTick = () => new Promise(resolve => setTimeout(resolve, 0));
+
+/**
+ * Writes `logs` to a file. Where the browser can save straight to disk the
+ * export is streamed there batch by batch; elsewhere the batches are
+ * collected as Blobs and downloaded together. Rejects with an AbortError when the
+ * save dialog is dismissed.
+ */
+export async function exportLogs(
+  logs: LogMessage[],
+  options: LogExportOptions,
+  baseName: string,
+  onProgress?: (exported: number) => void
+) {
+  const { label, extension, mimeType } = EXPORT_FORMATS.find(({ format }) => format === options.format);
+  const fileName = `${baseName}.${extension}`;
+  const showSaveFilePicker = (window as Window & { showSaveFilePicker?: SaveFilePicker }).showSaveFilePicker;
+
+  let write: (chunk: string) => Promise<void>;
+  let finish: () => Promise<void>;
+
+  if (showSaveFilePicker) {
+    const handle = await showSaveFilePicker({
+      suggestedName: fileName,
+      types: [{ description: label, accept: { [mimeType]: [`.${extension}`] } }]
+    });
+    const writable = await handle.createWritable();
+    write = chunk => writable.write(chunk);
+    finish = () => writable.close();
+  } else {
+    // Each batch becomes its own Blob, which the browser may keep on disk
+    const parts: Blob[] = [];
+    write = async chunk => {
+      parts.push(new Blob([chunk]));
+    };
+    finish = async () => {
+      const url = URL.createObjectURL(new Blob(parts, { type: mimeType }));
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = fileName;
+      link.click();
+      setTimeout(() => URL.revokeObjectURL(url), 0);
+    };
+  }
+
+  const header = getExportHeader(options);
+  if (header) {
+    await write(header);
+  }
+
+  for (let start = 0; start < logs.length; start += EXPORT_BATCH_SIZE) {
+    const batch = logs.slice(start, start + EXPORT_BATCH_SIZE);
+    await write(batch.map(log => `${formatLogForExport(log, options)}\n`).join(''));
+    onProgress?.(start + batch.length);
+    await nextTick();
+  }
+  await finish();
+}
@@ -0,0 +1,93 @@
+import { LogMessage } from '@/types/log';
+import { normalizeLevel } from '@/lib/logLevels';
+
+// Fields every log has; anything else the backend sends is an extra field
+const CORE_FIELDS = new Set(['time', 'level', 'message', 'name', 'function', 'line']);
+
+// Keys whose object value is merged into the extra fields rather than kept
+// as one nested field
+const CONTEXT_KEYS = ['extra', 'context'];
+
+// Extra field values longer than this (or spanning lines) are shown as a
+// block instead of a chip
+const MAX_CHIP_LENGTH = 80;
+
+const isPlainObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+/**
+ * Builds a log from a received object, collecting every field beyond the
+ * core ones (plus the contents of any `extra` / `context` object) into
+ * `extra`.
+ */
+export function toLogMessage(data: Record<string, unknown>): LogMessage {
+  const log = {} as LogMessage;
+  const extra: Record<string, unknown> = {};
+
+  Object.entries(data).forEach(([key, value]) => {
+    if (CORE_FIELDS.has(key)) {
+      (log as unknown as Record<string, unknown>)[key] = value;
+    } else if (CONTEXT_KEYS.includes(key) && isPlainObject(value)) {
+      Object.assign(extra, value);
+    } else if (value !== undefined) {
+      extra[key] = value;
+    }
+  });
+
+  log.level = normalizeLevel(data.level);
+  if (Object.keys(extra).length > 0) {
+    log.extra = extra;
+  }
+  return log;
+}
+
+/**
+ * Looks up an extra field by key, falling back to a dotted path into
+ * nested objects (`user.id`). Returns undefined when the log doesn't have it.
+ */
+export function getExtraField(log: LogMessage, key: string): unknown {
+  if (!log.extra) return undefined;
+  if (key in log.extra) return log.extra[key];
+
+  let value: unknown = log.extra;
+  for (const part of key.split('.')) {
+    if (!isPlainObject(value)) return undefined;
+    value = value[part];
+  }
+  return value;
+}
+
+// Text form of an extra field value, for display and search
+export function formatFieldValue(value: unknown): string {
+  if (typeof value === 'string') return value;
+  if (value === null || value === undefined) return String(value);
+  if (typeof value === 'object') return JSON.stringify(value, null, 2);
+  return String(value);
+}
+
+export function isChipValue(text: string) {
+  return text.length <= MAX_CHIP_LENGTH && !text.includes('\n');
+}
+
+// Text form of all of a log's extra fields, for free text search
+export function getExtraText(log: LogMessage): string[] {
+  if (!log.extra) return [];
+  return Object.values(log.extra).map(formatFieldValue);
+}
+
+/**
+ * Extra field keys found in `logs`, most common first, for autocomplete.
+ */
+export function collectExtraKeys(logs: LogMessage[], limit = 50): string[] {
+  const counts = new Map<string, number>();
+
+  logs.forEach(log => {
+    if (!log.extra) return;
+    Object.keys(log.extra).forEach(key => counts.set(key, (counts.get(key) ?? 0) + 1));
+  });
+
+  return [...counts.entries()]
+    .sort((a, b) => b[1] - a[1])
+    .slice(0, limit)
+    .map(([key]) => key);
+}
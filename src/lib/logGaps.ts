@@ -0,0 +1,86 @@
+import { ConnectionGap, LogMessage } from '@/types/log';
+import { getExtraField } from '@/lib/logFields';
+
+// Extra fields a backend may use to number its logs, in order of preference
+const CURSOR_FIELDS = ['seq', 'sequence', 'cursor', 'offset'];
+
+/**
+ * Where a stream should resume from after `log`: its sequence number when
+ * the backend sends one, otherwise its timestamp.
+ */
+export function getLogCursor(log: LogMessage): string {
+  for (const field of CURSOR_FIELDS) {
+    const value = getExtraField(log, field);
+    if (typeof value === 'string' || typeof value === 'number') {
+      return String(value);
+    }
+  }
+  return log.time;
+}
+
+export function withQueryParam(url: string, key: string, value: string) {
+  try {
+    const parsed = new URL(url);
+    parsed.searchParams.set(key, value);
+    return parsed.toString();
+  } catch {
+    return url;
+  }
+}
+
+/**
+ * The history request for a gap: `since` and `until` bound it in time and
+ * `cursor` is the last log received before it.
+ */
+export function buildBackfillUrl(historyUrl: string, gap: ConnectionGap, cursor: string | null) {
+  let url = withQueryParam(historyUrl, 'since', gap.from);
+  url = withQueryParam(url, 'until', gap.to);
+  return cursor ? withQueryParam(url, 'cursor', cursor) : url;
+}
+
+const timeOf = (log: LogMessage) => {
+  const time = Date.parse(log.time);
+  return isNaN(time) ? -Infinity : time;
+};
+
+/**
+ * Merges `inserted` into the newest-first `logs` by time. Where times are
+ * equal the logs already there stay newer.
+ */
+export function mergeLogsByTime(logs: LogMessage[], inserted: LogMessage[]): LogMessage[] {
+  const sorted = [...inserted].sort((a, b) => timeOf(b) - timeOf(a));
+  const merged: LogMessage[] = [];
+  let i = 0;
+  let j = 0;
+
+  while (i < logs.length || j < sorted.length) {
+    if (j >= sorted.length || (i < logs.length && timeOf(logs[i]) >= timeOf(sorted[j]))) {
+      merged.push(logs[i++]);
+    } else {
+      merged.push(sorted[j++]);
+    }
+  }
+
+  return merged;
+}
+
+/**
+ * Index in newest-first `logs` of the newest log from before `gap`, which
+ * the gap marker is shown next to. Assumes `logs` is ordered by time.
+ */
+export function findGapAnchor(logs: LogMessage[], gap: ConnectionGap): number {
+  const from = Date.parse(gap.from);
+  let low = 0;
+  let high = logs.length;
+
+  while (low < high) {
+    const mid = (low + high) >> 1;
+    if (timeOf(logs[mid]) > from) {
+      low = mid + 1;
+    } else {
+      high = mid;
+    }
+  }
+
+  return low < logs.length ? low : -1;
+}
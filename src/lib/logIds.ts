@@ -0,0 +1,42 @@
+import { nanoid } from 'nanoid';
+import { LogMessage } from '@/types/log';
+import { getExtraField } from '@/lib/logFields';
+
+// Extra fields a backend may use to identify its logs, in order of preference
+const ID_FIELDS = ['id', 'log_id', 'event_id', 'uuid'];
+
+// Generated ids start with a prefix unique to this page load, so they can't
+// clash with ones generated before a reload and kept in the log cache
+const GENERATED_ID_PREFIX = nanoid(8);
+let nextSequence = 0;
+
+// FNV-1a over the fields that make a log what it is, in base 36
+function hashContent(log: LogMessage) {
+  const text = [log.time, log.level, log.name, log.function, log.line, log.message].join('\u0000');
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return (hash >>> 0).toString(36);
+}
+
+/**
+ * The id a log is known by. When the backend sends an id it is combined
+ * with a hash of the log's content, since fields named `id` are often
+ * domain ids (an order, a user) shared by many different logs; a log
+ * received twice, such as one replayed after a reconnect, still gets the
+ * same id. Other logs get a generated id that is never reused.
+ */
+export function getLogId(log: LogMessage): string {
+  for (const field of ID_FIELDS) {
+    const value = getExtraField(log, field);
+    if (typeof value === 'string' || typeof value === 'number') {
+      return `${value}:${hashContent(log)}`;
+    }
+  }
+  return `${GENERATED_ID_PREFIX}-${(nextSequence++).toString(36)}`;
+}
+
+// Logs stored before logs had ids are given one when read back
+export const withLogId = (log: LogMessage): LogMessage => log.id ? log : { ...log, id: getLogId(log) };
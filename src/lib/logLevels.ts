@@ -0,0 +1,135 @@
+import { LogLevel } from '@/types/log';
+
+export interface LogLevelDefinition {
+  name: LogLevel;
+  // Python logging's numeric scale, used for ordering and numeric levels
+  severity: number;
+  aliases: string[];
+  // Tailwind classes for the entry border/text, the level badge and filters
+  className: string;
+  badgeClassName: string;
+}
+
+/**
+ * Every level the UI knows by name, from least to most severe. Levels not
+ * listed here are still shown and filtered; they just get neutral colours
+ * and sort by their number (`LEVEL 15`) or alongside INFO.
+ */
+export const LOG_LEVELS: LogLevelDefinition[] = [
+  {
+    name: 'TRACE',
+    severity: 5,
+    aliases: ['TRC', 'VERBOSE'],
+    className: 'text-log-trace border-log-trace',
+    badgeClassName: 'bg-log-trace/10'
+  },
+  {
+    name: 'DEBUG',
+    severity: 10,
+    aliases: ['DBG'],
+    className: 'text-log-debug border-log-debug',
+    badgeClassName: 'bg-log-debug/10'
+  },
+  {
+    name: 'INFO',
+    severity: 20,
+    aliases: ['INFORMATION', 'NOTICE'],
+    className: 'text-log-info border-log-info',
+    badgeClassName: 'bg-log-info/10'
+  },
+  {
+    name: 'SUCCESS',
+    severity: 25,
+    aliases: [],
+    className: 'text-log-success border-log-success',
+    badgeClassName: 'bg-log-success/10'
+  },
+  {
+    name: 'WARNING',
+    severity: 30,
+    aliases: ['WARN'],
+    className: 'text-log-warning border-log-warning',
+    badgeClassName: 'bg-log-warning/10'
+  },
+  {
+    name: 'ERROR',
+    severity: 40,
+    aliases: ['ERR'],
+    className: 'text-log-error border-log-error',
+    badgeClassName: 'bg-log-error/10'
+  },
+  {
+    name: 'CRITICAL',
+    severity: 50,
+    aliases: ['CRIT'],
+    className: 'text-log-critical border-log-critical',
+    badgeClassName: 'bg-log-critical/10'
+  },
+  {
+    name: 'FATAL',
+    severity: 60,
+    aliases: ['EMERGENCY', 'PANIC'],
+    className: 'text-log-fatal border-log-fatal',
+    badgeClassName: 'bg-log-fatal/10'
+  }
+];
+
+// The levels every session's filter lists, even before any arrive
+export const STANDARD_LEVELS: LogLevel[] = ['DEBUG', 'INFO', 'WARNING', 'ERROR'];
+
+const UNKNOWN_LEVEL_CLASS_NAME = 'text-muted-foreground border-muted-foreground';
+const UNKNOWN_LEVEL_BADGE_CLASS_NAME = 'bg-muted';
+
+const levelsByName = new Map<string, LogLevelDefinition>();
+LOG_LEVELS.forEach(level => {
+  levelsByName.set(level.name, level);
+  level.aliases.forEach(alias => levelsByName.set(alias, level));
+});
+
+const levelsBySeverity = new Map(LOG_LEVELS.map(level => [level.severity, level]));
+
+/**
+ * Turns whatever the backend sent as a level into the name used for
+ * display and filtering: aliases resolve to their level, numbers map onto
+ * the Python scale (`LEVEL 15` when between named levels) and anything else
+ * is kept upper-cased.
+ */
+export function normalizeLevel(level: unknown): LogLevel {
+  if (typeof level === 'number' && isFinite(level)) {
+    return levelsBySeverity.get(level)?.name ?? `LEVEL ${level}`;
+  }
+
+  const name = String(level ?? '').trim().toUpperCase();
+  if (!name) return 'INFO';
+  if (/^\d+$/.test(name)) return normalizeLevel(Number(name));
+  return levelsByName.get(name)?.name ?? name;
+}
+
+export function getLevelDefinition(level: LogLevel): LogLevelDefinition | undefined {
+  return levelsByName.get(level);
+}
+
+// Position of a level on the severity scale; unknown names rank with INFO
+export function getLevelSeverity(level: LogLevel): number {
+  const definition = levelsByName.get(level);
+  if (definition) return definition.severity;
+
+  const numeric = level.match(/^LEVEL (-?\d+(?:\.\d+)?)$/);
+  return numeric ? Number(numeric[1]) : 20;
+}
+
+export function getLevelClassName(level: LogLevel) {
+  return levelsByName.get(level)?.className ?? UNKNOWN_LEVEL_CLASS_NAME;
+}
+
+export function getLevelBadgeClassName(level: LogLevel) {
+  return levelsByName.get(level)?.badgeClassName ?? UNKNOWN_LEVEL_BADGE_CLASS_NAME;
+}
+
+export function isErrorLevel(level: LogLevel) {
+  return getLevelSeverity(level) >= 40;
+}
+
+export function compareLevels(a: LogLevel, b: LogLevel) {
+  return getLevelSeverity(a) - getLevelSeverity(b) || a.localeCompare(b);
+}
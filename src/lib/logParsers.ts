@@ -0,0 +1,317 @@
+import { LogFormat, LogMessage, LogParserConfig } from '@/types/log';
+import { parseLogFrame } from '@/lib/logSchema';
+
+/**
+ * Parsers for the formats a session's frames can arrive in. Each turns one
+ * received frame into any number of logs, plus the parts of it that
+ * couldn't be parsed. Every format ends in `parseLogFrame`, so field
+ * aliases, level names and time formats are handled the same everywhere.
+ */
+
+export interface ParsedFrame {
+  logs: LogMessage[];
+  errors: { text: string; error: string }[];
+}
+
+export const LOG_FORMATS: { format: LogFormat; label: string; description: string }[] = [
+  { format: 'json', label: 'JSON', description: 'A JSON object, an array of them, or one per line' },
+  { format: 'jsonl', label: 'JSON Lines', description: 'One JSON object per line, any number per frame' },
+  { format: 'logfmt', label: 'logfmt', description: 'key=value pairs, one record per line' },
+  { format: 'bunyan', label: 'Bunyan / pino', description: 'JSON Lines with numeric levels (30 = info)' },
+  { format: 'python', label: 'Python logging', description: 'Default text format; tracebacks are kept with their record' },
+  { format: 'regex', label: 'Custom regex', description: 'Named groups become fields, e.g. (?<level>\\w+)' }
+];
+
+export const DEFAULT_PARSER_CONFIG: LogParserConfig = {
+  format: 'json',
+  pattern: ''
+};
+
+// Bunyan and pino use their own numeric scale
+const BUNYAN_LEVELS: Record<number, string> = {
+  10: 'TRACE',
+  20: 'DEBUG',
+  30: 'INFO',
+  40: 'WARNING',
+  50: 'ERROR',
+  60: 'FATAL'
+};
+
+// logging.basicConfig's default and the asctime format most examples use
+const PYTHON_FORMATS = [
+  /^(?<time>\d{4}-\d{2}-\d{2}[ T]\d{2}:\d{2}:\d{2}(?:[,.]\d+)?) - (?<name>\S+) - (?<level>[A-Z]+) - (?<message>.*)$/,
+  /^(?<level>[A-Z]+):(?<name>[^:\s]*):(?<message>.*)$/
+];
+
+type RecordParser = (line: string) => Record<string, unknown> | string;
+
+const splitLines = (frame: string) => frame.split(/\r?\n/).filter(line => line.trim());
+
+function parseJsonRecord(text: string): Record<string, unknown> | string {
+  try {
+    return JSON.parse(text);
+  } catch (e) {
+    return `Invalid JSON: ${(e as Error).message}`;
+  }
+}
+
+// `key=value key2="quoted value" flag` -> { key, key2, flag: true }
+function parseLogfmtRecord(line: string): Record<string, unknown> | string {
+  const record: Record<string, unknown> = {};
+  const pair = /([^\s=]+)(?:=(?:"((?:[^"\\]|\\.)*)"|(\S*)))?/g;
+  let match: RegExpExecArray | null;
+
+  while ((match = pair.exec(line)) !== null) {
+    const [, key, quoted, bare] = match;
+    record[key] = quoted !== undefined
+      ? quoted.replace(/\\(.)/g, (_, char) => char === 'n' ? '\n' : char)
+      : bare ?? true;
+  }
+
+  return Object.keys(record).length > 0 ? record : 'No key=value pairs found';
+}
+
+function parseBunyanRecord(line: string): Record<string, unknown> | string {
+  const record = parseJsonRecord(line);
+  if (typeof record === 'string' || typeof record !== 'object' || record === null) return record;
+
+  const { v: _version, src, level, ...rest } = record as Record<string, unknown>;
+  const mapped: Record<string, unknown> = {
+    ...rest,
+    level: typeof level === 'number' ? BUNYAN_LEVELS[level] ?? level : level
+  };
+
+  // Bunyan's `src: true` option adds the call site
+  if (src && typeof src === 'object') {
+    const { func, line: lineNumber, file } = src as Record<string, unknown>;
+    mapped.function = mapped.function ?? func;
+    mapped.line = mapped.line ?? lineNumber;
+    mapped.file = mapped.file ?? file;
+  }
+
+  return mapped;
+}
+
+function namedGroupParser(patterns: RegExp[]): RecordParser {
+  return line => {
+    for (const pattern of patterns) {
+      const groups = line.match(pattern)?.groups;
+      if (groups) {
+        // Unmatched optional groups come back undefined; leave those fields out
+        return Object.fromEntries(Object.entries(groups).filter(([, value]) => value !== undefined));
+      }
+    }
+    return 'Line does not match the format';
+  };
+}
+
+const parsePythonRecord = namedGroupParser(PYTHON_FORMATS);
+
+/**
+ * Parses a frame line by line. With `continuations`, lines that don't start
+ * a record (tracebacks, wrapped messages) are added to the previous one.
+ */
+function parseLines(
+  frame: string,
+  parseRecord: RecordParser,
+  receivedAt: Date,
+  continuations = false
+): ParsedFrame {
+  const records: { text: string; record: Record<string, unknown> }[] = [];
+  const errors: ParsedFrame['errors'] = [];
+
+  splitLines(frame).forEach(line => {
+    const record = parseRecord(line);
+    if (typeof record !== 'string') {
+      records.push({ text: line, record });
+      return;
+    }
+
+    const previous = records[records.length - 1];
+    if (continuations && previous) {
+      previous.record.message = `${previous.record.message ?? ''}\n${line}`;
+      previous.text += `\n${line}`;
+    } else {
+      errors.push({ text: line, error: record });
+    }
+  });
+
+  const logs: LogMessage[] = [];
+  records.forEach(({ text, record }) => {
+    const { log, error } = parseLogFrame(record, receivedAt);
+    if (log) {
+      logs.push(log);
+    } else {
+      errors.push({ text, error });
+    }
+  });
+
+  return { logs, errors };
+}
+
+/**
+ * Turns already decoded data (a JSON or MessagePack frame) into logs: one
+ * record, or an array of them.
+ */
+export function parseRecords(data: unknown, receivedAt = new Date()): ParsedFrame {
+  const records = Array.isArray(data) ? data : [data];
+  const parsed: ParsedFrame = { logs: [], errors: [] };
+
+  records.forEach(record => {
+    const { log, error } = parseLogFrame(record, receivedAt);
+    if (log) {
+      parsed.logs.push(log);
+    } else {
+      parsed.errors.push({ text: JSON.stringify(record) ?? String(record), error });
+    }
+  });
+
+  return parsed;
+}
+
+/**
+ * Checks a custom format pattern. Returns why it can't be used, or null.
+ */
+export function validateLogPattern(pattern: string): string | null {
+  let regex: RegExp;
+  try {
+    regex = new RegExp(pattern);
+  } catch (e) {
+    return `Invalid regex: ${(e as Error).message}`;
+  }
+
+  if (!/\(\?<message>/.test(regex.source)) {
+    return 'Pattern needs a (?<message>...) group';
+  }
+  return null;
+}
+
+/**
+ * Builds the frame parser for a session's format. The custom pattern is
+ * compiled once here rather than per frame.
+ */
+export function createLogParser({ format, pattern }: LogParserConfig): (frame: string, receivedAt?: Date) => ParsedFrame {
+  switch (format) {
+    case 'jsonl':
+      return (frame, receivedAt = new Date()) => parseLines(frame, parseJsonRecord, receivedAt);
+    case 'logfmt':
+      return (frame, receivedAt = new Date()) => parseLines(frame, parseLogfmtRecord, receivedAt);
+    case 'bunyan':
+      return (frame, receivedAt = new Date()) => parseLines(frame, parseBunyanRecord, receivedAt);
+    case 'python':
+      return (frame, receivedAt = new Date()) => parseLines(frame, parsePythonRecord, receivedAt, true);
+    case 'regex': {
+      const invalid = validateLogPattern(pattern);
+      if (invalid) {
+        return frame => ({ logs: [], errors: [{ text: frame, error: invalid }] });
+      }
+      const parseRecord = namedGroupParser([new RegExp(pattern)]);
+      return (frame, receivedAt = new Date()) => parseLines(frame, parseRecord, receivedAt);
+    }
+    default:
+      return (frame, receivedAt = new Date()) => {
+        const data = parseJsonRecord(frame);
+        if (typeof data !== 'string') {
+          return parseRecords(data, receivedAt);
+        }
+
+        // Not one JSON value; it may be a newline-delimited batch
+        return frame.trim().includes('\n')
+          ? parseLines(frame, parseJsonRecord, receivedAt)
+          : { logs: [], errors: [{ text: frame, error: data }] };
+      };
+  }
+}
+
+// Fields pino writes on every record; it has no `v` like Bunyan since v7
+const PINO_KEYS = ['pid', 'hostname', 'msg', 'time'];
+
+// Bunyan and pino records carry a numeric level on their own scale
+function isBunyanRecord(record: unknown) {
+  if (typeof record !== 'object' || record === null || Array.isArray(record)) return false;
+  const fields = record as Record<string, unknown>;
+  if (typeof fields.level !== 'number') return false;
+  return 'v' in fields || PINO_KEYS.filter(key => key in fields).length >= 2;
+}
+
+// Plain text with no recognisable structure: every line is a message
+const PLAIN_TEXT_PARSER: LogParserConfig = { format: 'regex', pattern: '^(?<message>.+)$' };
+
+/**
+ * Guesses a parser from the start of a log file: JSON (or Bunyan/pino),
+ * Python logging, logfmt, or failing those one message per line.
+ */
+export function detectLogFormat(sample: string): LogParserConfig {
+  const firstLine = splitLines(sample)[0]?.trim() ?? '';
+
+  if (firstLine.startsWith('{') || firstLine.startsWith('[')) {
+    const record = parseJsonRecord(firstLine);
+    return { ...DEFAULT_PARSER_CONFIG, format: isBunyanRecord(record) ? 'bunyan' : 'json' };
+  }
+  if (PYTHON_FORMATS.some(format => format.test(firstLine))) {
+    return { ...DEFAULT_PARSER_CONFIG, format: 'python' };
+  }
+  if (/^[\w.]+=\S/.test(firstLine)) {
+    return { ...DEFAULT_PARSER_CONFIG, format: 'logfmt' };
+  }
+  return PLAIN_TEXT_PARSER;
+}
+
+export interface ChunkParser {
+  push: (text: string) => ParsedFrame;
+  // Parses whatever is still held back once the input has ended
+  end: () => ParsedFrame;
+}
+
+/**
+ * Parses text that arrives in arbitrary pieces, such as a file being read.
+ * Only complete lines are parsed; for Python logging the last record is
+ * also held back in case its traceback continues in the next piece. A JSON
+ * file that is one array can't be split, so it is parsed at the end.
+ */
+export function createChunkParser(config: LogParserConfig, receivedAt = new Date()): ChunkParser {
+  const parseFrame = createLogParser(config);
+  const empty = (): ParsedFrame => ({ logs: [], errors: [] });
+  let pending = '';
+  let isSingleDocument: boolean | null = null;
+
+  const parse = (text: string) => text.trim() ? parseFrame(text, receivedAt) : empty();
+
+  // Where the text that can be parsed now ends
+  const findCut = () => {
+    const lastNewline = pending.lastIndexOf('\n');
+    if (lastNewline === -1 || config.format !== 'python') return lastNewline + 1;
+
+    let end = lastNewline;
+    while (end > 0) {
+      const start = pending.lastIndexOf('\n', end - 1) + 1;
+      if (PYTHON_FORMATS.some(format => format.test(pending.slice(start, end).replace(/\r$/, '')))) {
+        return start;
+      }
+      end = start - 1;
+    }
+    // No record starts here at all; these lines can't be joined to anything
+    return lastNewline + 1;
+  };
+
+  return {
+    push: text => {
+      pending += text;
+
+      if (config.format === 'json' && isSingleDocument === null && pending.trim()) {
+        isSingleDocument = pending.trimStart().startsWith('[');
+      }
+      if (isSingleDocument) return empty();
+
+      const cut = findCut();
+      const complete = pending.slice(0, cut);
+      pending = pending.slice(cut);
+      return parse(complete);
+    },
+    end: () => {
+      const rest = pending;
+      pending = '';
+      return parse(rest);
+    }
+  };
+}
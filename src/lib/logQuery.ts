@@ -0,0 +1,560 @@
+import { LogLevelFilter, LogMessage, SearchOptions } from '@/types/log';
+import { formatFieldValue, getExtraField, getExtraText } from '@/lib/logFields';
+import { LOG_LEVELS, getLevelDefinition, getLevelSeverity, normalizeLevel } from '@/lib/logLevels';
+
+/**
+ * Search query language for logs. A query is a list of whitespace-separated
+ * terms that must all match:
+ *
+ *   timeout                 free text in message, name, function or extra fields
+ *   "connection reset"      quoted phrase
+ *   -healthcheck            any term can be negated with a leading `-`
+ *   level:>=WARNING         level, compared by severity (=, >, >=, <, <=);
+ *   level:>=25              aliases (WARN) and numeric levels work too
+ *   name:api.*              name / function / message; `*` and `?` are
+ *   function:handle_*       wildcards that match the whole value, otherwise
+ *   message:"not found"     the value matches anywhere in the field
+ *   name:=api               `=` matches the whole value exactly, case included
+ *   line:120..200           line number: exact, range or comparison
+ *   time:>-15m              time: relative (s, m, h, d) or absolute dates,
+ *   time:2024-05-01..2024-05-02  comparisons and ranges
+ *   request_id:abc*         any other name is an extra field, matched like
+ *   user.id:>100            the text fields or compared as a number; `key:*`
+ *                           matches logs that have the field. Logs without
+ *                           the field are searched for the term as free
+ *                           text instead, so `http://host` or `Error:`
+ *                           still find what was typed
+ *
+ * The regex, whole-word and case-sensitive search options apply to free
+ * text terms. In regex mode a pattern containing spaces must be quoted.
+ */
+
+export const QUERY_FIELDS = ['level', 'name', 'function', 'message', 'line', 'time'] as const;
+
+export type QueryField = typeof QUERY_FIELDS[number];
+
+export const QUERY_FIELD_DESCRIPTIONS: Record<QueryField, string> = {
+  level: 'Severity, e.g. level:>=WARNING',
+  name: 'Logger name, e.g. name:api.*',
+  function: 'Function, e.g. function:handle_*',
+  message: 'Message text, e.g. message:"timed out"',
+  line: 'Line number, e.g. line:120..200',
+  time: 'Time, e.g. time:>-15m'
+};
+
+export const DEFAULT_SEARCH_OPTIONS: SearchOptions = {
+  regex: false,
+  wholeWord: false,
+  caseSensitive: false
+};
+
+// Regex searches only look at this much of each field, which bounds the
+// cost of a slow pattern on a huge message
+const MAX_REGEX_INPUT_LENGTH = 10_000;
+
+export interface QueryError {
+  message: string;
+  start: number;
+  end: number;
+}
+
+type TermTest = (log: LogMessage, now: number) => boolean;
+
+interface QueryTerm {
+  negated: boolean;
+  test: TermTest;
+}
+
+export interface ParsedQuery {
+  terms: QueryTerm[];
+  errors: QueryError[];
+  // Whether a term is relative to now (`time:>-15m`), so what matches
+  // changes as time passes
+  isRelative: boolean;
+  // Matches what the user searched for, for highlighting; global flag set
+  highlight: RegExp | null;
+}
+
+interface Token {
+  text: string;
+  start: number;
+  end: number;
+  unterminatedQuote: boolean;
+}
+
+function tokenize(query: string): Token[] {
+  const tokens: Token[] = [];
+  let i = 0;
+
+  while (i < query.length) {
+    if (/\s/.test(query[i])) {
+      i++;
+      continue;
+    }
+
+    const start = i;
+    let inQuote = false;
+    while (i < query.length && (inQuote || !/\s/.test(query[i]))) {
+      if (query[i] === '"') inQuote = !inQuote;
+      i++;
+    }
+
+    tokens.push({ text: query.slice(start, i), start, end: i, unterminatedQuote: inQuote });
+  }
+
+  return tokens;
+}
+
+function unquote(value: string) {
+  return value.replace(/^"|"$/g, '');
+}
+
+function escapeRegExp(text: string) {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+// `=value` and wildcard patterns match the whole value; anything else is
+// a substring match
+function textMatcher(pattern: string): (value: string) => boolean {
+  if (pattern.startsWith('=')) {
+    const expected = unquote(pattern.slice(1));
+    return value => value === expected;
+  }
+
+  if (/[*?]/.test(pattern)) {
+    const source = pattern.split('').map(char =>
+      char === '*' ? '.*' : char === '?' ? '.' : escapeRegExp(char)
+    ).join('');
+    const regex = new RegExp(`^${source}$`, 'i');
+    return value => regex.test(value);
+  }
+
+  const needle = pattern.toLowerCase();
+  return value => value.toLowerCase().includes(needle);
+}
+
+type Comparator = '=' | '>' | '>=' | '<' | '<=';
+
+function splitComparator(value: string): { comparator: Comparator; operand: string } {
+  const match = value.match(/^(>=|<=|>|<|=)?(.*)$/);
+  return { comparator: (match[1] as Comparator) || '=', operand: match[2] };
+}
+
+function compare(actual: number, comparator: Comparator, expected: number) {
+  switch (comparator) {
+    case '>': return actual > expected;
+    case '>=': return actual >= expected;
+    case '<': return actual < expected;
+    case '<=': return actual <= expected;
+    default: return actual === expected;
+  }
+}
+
+const RELATIVE_TIME = /^-(\d+(?:\.\d+)?)(s|m|h|d)$/;
+
+// Resolves `-15m`-style offsets against `now`, or parses an absolute date
+function parseTime(value: string): ((now: number) => number) | null {
+  const relative = value.match(RELATIVE_TIME);
+  if (relative) {
+    const unit = { s: 1000, m: 60_000, h: 3_600_000, d: 86_400_000 }[relative[2]];
+    const offset = parseFloat(relative[1]) * unit;
+    return now => now - offset;
+  }
+
+  const absolute = Date.parse(value);
+  return isNaN(absolute) ? null : () => absolute;
+}
+
+/**
+ * Builds a test for a numeric field from `value`, which may be a
+ * comparison (`>=5`), a range (`5..10`, either end optional) or exact.
+ */
+function numericTest(
+  value: string,
+  parse: (operand: string) => ((now: number) => number) | null,
+  getValue: (log: LogMessage) => number
+): TermTest | string {
+  const range = value.match(/^(.*)\.\.(.*)$/);
+  if (range) {
+    const from = range[1] ? parse(range[1]) : () => -Infinity;
+    const to = range[2] ? parse(range[2]) : () => Infinity;
+    if (!from || !to) return `Invalid range "${value}"`;
+
+    return (log, now) => {
+      const actual = getValue(log);
+      return actual >= from(now) && actual <= to(now);
+    };
+  }
+
+  const { comparator, operand } = splitComparator(value);
+  const expected = parse(operand);
+  if (!expected) return `Invalid value "${operand}"`;
+
+  return (log, now) => compare(getValue(log), comparator, expected(now));
+}
+
+function parseNumber(value: string) {
+  const number = Number(value);
+  return value.trim() !== '' && !isNaN(number) ? () => number : null;
+}
+
+function extraFieldTest(key: string, value: string): TermTest | string {
+  if (value === '*') {
+    return log => getExtraField(log, key) !== undefined;
+  }
+
+  if (/^(>=|<=|>|<)|\.\./.test(value)) {
+    return numericTest(value, parseNumber, log => {
+      const field = getExtraField(log, key);
+      return field === undefined || field === null || field === '' ? NaN : Number(field);
+    });
+  }
+
+  const matches = textMatcher(value);
+  return log => {
+    const field = getExtraField(log, key);
+    return field !== undefined && matches(formatFieldValue(field));
+  };
+}
+
+function fieldTest(field: QueryField, value: string): TermTest | string {
+  switch (field) {
+    case 'level': {
+      const { comparator, operand } = splitComparator(value);
+      const level = normalizeLevel(operand);
+
+      // Any name can be matched exactly, but ordering needs a known level
+      if (comparator === '=') {
+        return log => log.level === level;
+      }
+      if (!getLevelDefinition(level) && !/^\d+$/.test(operand.trim())) {
+        return `Unknown level "${operand}"`;
+      }
+
+      const severity = getLevelSeverity(level);
+      return log => compare(getLevelSeverity(log.level), comparator, severity);
+    }
+    case 'line':
+      return numericTest(value, parseNumber, log => log.line);
+    case 'time':
+      return numericTest(value, parseTime, log => Date.parse(log.time));
+    default: {
+      const matches = textMatcher(value);
+      return log => matches(String(log[field] ?? ''));
+    }
+  }
+}
+
+/**
+ * Rejects patterns with a quantified group that itself contains a
+ * quantifier or alternatives, like `(a+)+`, `(.*x)*` or `(a|aa)+`. These
+ * can backtrack exponentially; catching them up front saves waiting for
+ * the filter worker's time limit, which stops whatever slow patterns get
+ * past this check.
+ */
+function findUnsafeRegex(source: string): string | null {
+  // For each open group: whether it contains a quantifier, and whether it
+  // has alternatives of its own
+  const groups: boolean[] = [];
+  const alternations: boolean[] = [];
+  const isQuantifier = (char: string | undefined) => char === '*' || char === '+' || char === '{';
+
+  for (let i = 0; i < source.length; i++) {
+    const char = source[i];
+
+    if (char === '\\') {
+      i++;
+    } else if (char === '[') {
+      // Skip character classes, which can't nest quantifiers
+      while (i < source.length && source[i] !== ']') {
+        if (source[i] === '\\') i++;
+        i++;
+      }
+    } else if (char === '(') {
+      groups.push(false);
+      alternations.push(false);
+    } else if (char === '|' && alternations.length > 0) {
+      alternations[alternations.length - 1] = true;
+    } else if (char === ')') {
+      const hasQuantifier = groups.pop();
+      const hasAlternation = alternations.pop();
+      if (hasQuantifier && isQuantifier(source[i + 1])) {
+        return 'Pattern has nested quantifiers and could hang the page';
+      }
+      if (hasAlternation && isQuantifier(source[i + 1])) {
+        return 'Pattern repeats a group of alternatives and could hang the page';
+      }
+      if (hasQuantifier && groups.length > 0) {
+        groups[groups.length - 1] = true;
+      }
+    } else if (isQuantifier(char) && groups.length > 0) {
+      groups[groups.length - 1] = true;
+    }
+  }
+
+  return null;
+}
+
+interface TextPattern {
+  source: string;
+  test: (value: string) => boolean;
+}
+
+function textPattern(text: string, options: SearchOptions): TextPattern | string {
+  if (!options.regex && !options.wholeWord && !options.caseSensitive) {
+    const needle = text.toLowerCase();
+    return { source: escapeRegExp(text), test: value => value.toLowerCase().includes(needle) };
+  }
+
+  let source = options.regex ? text : escapeRegExp(text);
+  if (options.regex) {
+    const unsafe = findUnsafeRegex(source);
+    if (unsafe) return unsafe;
+  }
+  if (options.wholeWord) {
+    source = `\\b(?:${source})\\b`;
+  }
+
+  let regex: RegExp;
+  try {
+    regex = new RegExp(source, options.caseSensitive ? '' : 'i');
+  } catch (e) {
+    return `Invalid regex: ${(e as Error).message}`;
+  }
+
+  return {
+    source,
+    test: value => regex.test(value.length > MAX_REGEX_INPUT_LENGTH ? value.slice(0, MAX_REGEX_INPUT_LENGTH) : value)
+  };
+}
+
+// Free text is looked for in every text field of a log
+function textTest(pattern: TextPattern): TermTest {
+  return log =>
+    pattern.test(log.message) ||
+    pattern.test(log.name) ||
+    pattern.test(log.function) ||
+    getExtraText(log).some(pattern.test);
+}
+
+// An extra field term where the log has the field, free text where it doesn't
+function extraFieldOrTextTest(key: string, fieldTest: TermTest, text: TermTest): TermTest {
+  return (log, now) => getExtraField(log, key) !== undefined ? fieldTest(log, now) : text(log, now);
+}
+
+const HTML_ESCAPES: Record<string, string> = { '&': '&amp;', '<': '&lt;', '>': '&gt;', '"': '&quot;', "'": '&#39;' };
+
+const escapeHtml = (text: string) => text.replace(/[&<>"']/g, char => HTML_ESCAPES[char]);
+
+/**
+ * Whether `text` contains a highlighted match, looking only as far as
+ * regex searches do.
+ */
+export function hasHighlightMatch(text: string, highlight: RegExp | null) {
+  if (!highlight) return false;
+  highlight.lastIndex = 0;
+  return highlight.test(text.length > MAX_REGEX_INPUT_LENGTH ? text.slice(0, MAX_REGEX_INPUT_LENGTH) : text);
+}
+
+/**
+ * `text` as escaped HTML with the matches of `highlight` wrapped in
+ * `<mark>`. Matching runs on the raw text, so a match can't split an
+ * entity, and stops where regex searches do; the rest is left unmarked.
+ */
+export function highlightHtml(text: string, highlight: RegExp | null, markClassName: string) {
+  if (!highlight) return escapeHtml(text);
+
+  const searched = text.length > MAX_REGEX_INPUT_LENGTH ? text.slice(0, MAX_REGEX_INPUT_LENGTH) : text;
+  const regex = new RegExp(highlight.source, highlight.flags.includes('g') ? highlight.flags : `${highlight.flags}g`);
+  let html = '';
+  let last = 0;
+  let match: RegExpExecArray | null;
+
+  while ((match = regex.exec(searched)) !== null) {
+    if (match[0] === '') {
+      regex.lastIndex++;
+      continue;
+    }
+    html += `${escapeHtml(searched.slice(last, match.index))}<mark class="${markClassName}">${escapeHtml(match[0])}</mark>`;
+    last = match.index + match[0].length;
+  }
+
+  return html + escapeHtml(text.slice(last));
+}
+
+function combineHighlights(sources: string[], options: SearchOptions): RegExp | null {
+  // Patterns that can match nothing would highlight every position
+  const usable = sources.filter(source => !new RegExp(source).test(''));
+  if (usable.length === 0) return null;
+
+  const flags = options.caseSensitive ? 'g' : 'gi';
+  return new RegExp(usable.map(source => `(?:${source})`).join('|'), flags);
+}
+
+export function parseQuery(query: string, options: SearchOptions = DEFAULT_SEARCH_OPTIONS): ParsedQuery {
+  const terms: QueryTerm[] = [];
+  const errors: QueryError[] = [];
+  const highlightSources: string[] = [];
+  let isRelative = false;
+
+  for (const token of tokenize(query)) {
+    const error = (message: string) => errors.push({ message, start: token.start, end: token.end });
+
+    if (token.unterminatedQuote) {
+      error('Missing closing quote');
+      continue;
+    }
+
+    const negated = token.text.length > 1 && token.text.startsWith('-');
+    const body = negated ? token.text.slice(1) : token.text;
+    const fieldMatch = body.match(/^([a-z_][\w.-]*):(.*)$/i);
+
+    const field = fieldMatch?.[1].toLowerCase() as QueryField;
+    if (fieldMatch && QUERY_FIELDS.includes(field)) {
+      const value = unquote(fieldMatch[2]);
+
+      if (!value) {
+        error(`Missing value for ${fieldMatch[1]}:`);
+        continue;
+      }
+
+      const test = fieldTest(field, value);
+      if (typeof test === 'string') {
+        error(test);
+        continue;
+      }
+
+      terms.push({ negated, test });
+      if (field === 'time') {
+        isRelative ||= value.split('..').some(part => RELATIVE_TIME.test(splitComparator(part).operand));
+      }
+      const highlighted = unquote(value.replace(/^=/, '')).replace(/[*?]/g, '');
+      if (!negated && field === 'message' && highlighted) {
+        highlightSources.push(escapeRegExp(highlighted));
+      }
+      continue;
+    }
+
+    const text = unquote(body);
+    if (!text) continue;
+
+    // Anything else before a colon may be an extra field; values that
+    // can't be one (`Error:`, `key:>abc`) are only searched as text
+    const value = fieldMatch ? unquote(fieldMatch[2]) : '';
+    const extraTest = value ? extraFieldTest(fieldMatch[1], value) : null;
+
+    const pattern = textPattern(text, options);
+    if (typeof pattern === 'string') {
+      // Not valid as a regex, but still fine as a field match
+      if (typeof extraTest === 'function') {
+        terms.push({ negated, test: extraTest });
+      } else {
+        error(pattern);
+      }
+      continue;
+    }
+
+    terms.push({
+      negated,
+      test: typeof extraTest === 'function'
+        ? extraFieldOrTextTest(fieldMatch[1], extraTest, textTest(pattern))
+        : textTest(pattern)
+    });
+    if (!negated) {
+      highlightSources.push(pattern.source);
+    }
+  }
+
+  return { terms, errors, isRelative, highlight: combineHighlights(highlightSources, options) };
+}
+
+/**
+ * The one predicate used wherever logs are filtered: level checkboxes plus
+ * the parsed search query. Relative times are resolved against `now`.
+ */
+export function createLogPredicate(
+  levelFilters: LogLevelFilter,
+  query: ParsedQuery,
+  now = Date.now()
+): (log: LogMessage) => boolean {
+  return log =>
+    levelFilters[log.level] !== false &&
+    query.terms.every(term => term.test(log, now) !== term.negated);
+}
+
+const MAX_SUGGESTIONS = 10;
+
+export interface QuerySuggestion {
+  value: string;
+  description?: string;
+}
+
+/**
+ * Autocomplete for the term under the cursor: field names (including the
+ * given extra field keys) while typing a bare word, and level names after
+ * `level:`.
+ */
+export function getQuerySuggestions(query: string, cursor: number, extraFields: string[] = []): {
+  suggestions: QuerySuggestion[];
+  start: number;
+  end: number;
+} {
+  const before = query.slice(0, cursor);
+  const start = before.search(/\S*$/);
+  const afterMatch = query.slice(cursor).match(/^\S*/);
+  const end = cursor + (afterMatch ? afterMatch[0].length : 0);
+  const word = before.slice(start);
+  const prefix = word.startsWith('-') ? '-' : '';
+  const partial = word.slice(prefix.length).toLowerCase();
+
+  const levelMatch = partial.match(/^level:(>=|<=|>|<|=)?(.*)$/);
+  if (levelMatch) {
+    const comparator = levelMatch[1] || '';
+    return {
+      suggestions: LOG_LEVELS
+        .filter(({ name }) => name.toLowerCase().startsWith(levelMatch[2]))
+        .map(({ name }) => ({ value: `${prefix}level:${comparator}${name}` })),
+      start,
+      end
+    };
+  }
+
+  if (!partial || partial.includes(':') || partial.startsWith('"')) {
+    return { suggestions: [], start, end };
+  }
+
+  const fieldSuggestions = QUERY_FIELDS
+    .filter(field => field.startsWith(partial) && field !== partial)
+    .map(field => ({ value: `${prefix}${field}:`, description: QUERY_FIELD_DESCRIPTIONS[field] }));
+  const extraSuggestions = extraFields
+    .filter(key => key.toLowerCase().startsWith(partial) && key.toLowerCase() !== partial)
+    .filter(key => !(QUERY_FIELDS as readonly string[]).includes(key))
+    .map(key => ({ value: `${prefix}${key}:`, description: 'Extra field' }));
+
+  return {
+    suggestions: [...fieldSuggestions, ...extraSuggestions].slice(0, MAX_SUGGESTIONS),
+    start,
+    end
+  };
+}
+
+/**
+ * Indexes of the logs containing a highlighted search match, for stepping
+ * between matches.
+ */
+export function findMatches(logs: LogMessage[], query: ParsedQuery): number[] {
+  if (!query.highlight) return [];
+
+  // A non-global copy: global regexes keep state between test() calls
+  const regex = new RegExp(query.highlight.source, query.highlight.flags.replace('g', ''));
+  const test = (value: string) =>
+    regex.test(value.length > MAX_REGEX_INPUT_LENGTH ? value.slice(0, MAX_REGEX_INPUT_LENGTH) : value);
+
+  const matches: number[] = [];
+  logs.forEach((log, index) => {
+    if (test(log.message) || test(log.name) || test(log.function) || getExtraText(log).some(test)) {
+      matches.push(index);
+    }
+  });
+  return matches;
+}
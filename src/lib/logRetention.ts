@@ -0,0 +1,39 @@
+import { LogMessage, LogRetention } from '@/types/log';
+
+export const DEFAULT_RETENTION: LogRetention = {
+  maxEntries: 50000,
+  maxAgeMinutes: null
+};
+
+/**
+ * Trims a newest-first log array to the session's retention limits.
+ * Returns the original array untouched when nothing needs evicting.
+ */
+export function applyRetention(
+  logs: LogMessage[],
+  retention: LogRetention,
+  now = Date.now()
+): { logs: LogMessage[]; evicted: number } {
+  let keep = logs.length;
+  
+  if (retention.maxEntries !== null && keep > retention.maxEntries) {
+    keep = retention.maxEntries;
+  }
+  
+  if (retention.maxAgeMinutes !== null) {
+    const cutoff = now - retention.maxAgeMinutes * 60_000;
+    
+    // Oldest logs sit at the end; stop at the first one still within the window
+    while (keep > 0) {
+      const time = Date.parse(logs[keep - 1].time);
+      if (isNaN(time) || time >= cutoff) break;
+      keep--;
+    }
+  }
+  
+  if (keep === logs.length) {
+    return { logs, evicted: 0 };
+  }
+  
+  return { logs: logs.slice(0, keep), evicted: logs.length - keep };
+}
@@ -0,0 +1,104 @@
+import { z } from 'zod';
+import { LogMessage } from '@/types/log';
+import { toLogMessage } from '@/lib/logFields';
+import { getLogId } from '@/lib/logIds';
+
+// Other names backends use for each log field, in order of preference.
+// Python's logging.LogRecord names come first since most senders use them.
+const FIELD_ALIASES: Record<string, string[]> = {
+  time: ['timestamp', 'created', 'asctime', '@timestamp', 'ts'],
+  level: ['levelname', 'severity', 'levelno'],
+  message: ['msg', 'text'],
+  name: ['logger', 'logger_name'],
+  function: ['funcName', 'func'],
+  line: ['lineno']
+};
+
+// Epoch numbers below this are seconds (until the year 33658), above it
+// milliseconds
+const MAX_EPOCH_SECONDS = 1e12;
+
+// Python's asctime, `2024-05-01 12:00:00,123`, which Date can't parse as is
+const ASCTIME = /^(\d{4}-\d{2}-\d{2}) (\d{2}:\d{2}:\d{2}),(\d+)$/;
+
+const timeSchema = z.union([z.string(), z.number()]).transform((value, ctx) => {
+  const epoch = typeof value === 'number' ? value : /^\d+(\.\d+)?$/.test(value.trim()) ? Number(value) : null;
+  const time = epoch !== null
+    ? new Date(epoch < MAX_EPOCH_SECONDS ? epoch * 1000 : epoch)
+    : new Date(String(value).replace(ASCTIME, '$1T$2.$3'));
+
+  if (isNaN(time.getTime())) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, message: `Invalid time "${value}"` });
+    return z.NEVER;
+  }
+  return time.toISOString();
+});
+
+const messageSchema = z.unknown().transform((value, ctx) => {
+  if (value === undefined || value === null) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, message: 'Missing message' });
+    return z.NEVER;
+  }
+  return typeof value === 'string' ? value : JSON.stringify(value);
+});
+
+const optionalTextSchema = z.union([z.string(), z.number()]).optional().transform(value => value === undefined ? '' : String(value));
+
+/**
+ * Shape of a log frame once field aliases are resolved. Only `message` is
+ * required: a missing time is taken as the time of arrival and a missing
+ * level as INFO. Unknown fields pass through and become extra fields.
+ */
+export const logFrameSchema = z.object({
+  time: timeSchema.optional(),
+  level: z.union([z.string(), z.number()]).optional(),
+  message: messageSchema,
+  name: optionalTextSchema,
+  function: optionalTextSchema,
+  line: z.coerce.number().int().catch(0)
+}).passthrough();
+
+// Either the parsed log or why the frame was rejected
+export interface LogFrameResult {
+  log?: LogMessage;
+  error?: string;
+}
+
+function resolveAliases(data: Record<string, unknown>) {
+  const resolved = { ...data };
+
+  Object.entries(FIELD_ALIASES).forEach(([field, aliases]) => {
+    aliases.forEach(alias => {
+      if (!(alias in resolved)) return;
+      if (resolved[field] === undefined) {
+        resolved[field] = resolved[alias];
+      }
+      delete resolved[alias];
+    });
+  });
+
+  return resolved;
+}
+
+/**
+ * Validates a decoded frame and turns it into a `LogMessage`, mapping the
+ * common field name variants (`levelname`, `msg`, epoch `timestamp`,
+ * `funcName`, `lineno`, ...) onto the standard ones. The log gets its id
+ * here, so it is the same wherever the log goes afterwards.
+ */
+export function parseLogFrame(data: unknown, receivedAt = new Date()): LogFrameResult {
+  if (typeof data !== 'object' || data === null || Array.isArray(data)) {
+    return { error: 'Frame is not a JSON object' };
+  }
+
+  const result = logFrameSchema.safeParse(resolveAliases(data as Record<string, unknown>));
+  if (!result.success) {
+    const issue = result.error.issues[0];
+    const path = issue.path.join('.');
+    return { error: path ? `${path}: ${issue.message}` : issue.message };
+  }
+
+  const log = toLogMessage({ ...result.data, time: result.data.time ?? receivedAt.toISOString() });
+  log.id = getLogId(log);
+  return { log };
+}
@@ -0,0 +1,21 @@
+export interface LogPermalink {
+  // Missing from links that only name a log; the active session is used
+  sessionId: string | null;
+  logId: string;
+}
+
+/**
+ * A link to this page that opens `logId` in its session, carried in the
+ * hash as `#session=<id>&log=<id>`.
+ */
+export function buildLogPermalink(sessionId: string, logId: string) {
+  const url = new URL(window.location.href);
+  url.hash = new URLSearchParams({ session: sessionId, log: logId }).toString();
+  return url.toString();
+}
+
+export function parseLogPermalink(hash: string): LogPermalink | null {
+  const params = new URLSearchParams(hash.replace(/^#/, ''));
+  const logId = params.get('log');
+  return logId ? { sessionId: params.get('session'), logId } : null;
+}
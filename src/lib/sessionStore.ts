@@ -0,0 +1,123 @@
+import { LogOrder, LogSession } from '@/types/log';
+import { DEFAULT_BACKFILL, DEFAULT_LEVEL_FILTERS } from '@/lib/sessions';
+import { DEFAULT_RETENTION } from '@/lib/logRetention';
+import { DEFAULT_SEARCH_OPTIONS } from '@/lib/logQuery';
+import { DEFAULT_PARSER_CONFIG } from '@/lib/logParsers';
+import { DEFAULT_HEALTH_CHECK } from '@/lib/connectionHealth';
+import { DEFAULT_STREAM_AUTH } from '@/lib/streamAuth';
+import { withLogId } from '@/lib/logIds';
+
+const SESSIONS_KEY = 'logSessions';
+const AUTH_TOKENS_KEY = 'logSessionAuthTokens';
+
+type StoredSession = Omit<LogSession, 'logs' | 'authToken'>;
+
+interface StoredSessions {
+  sessions: StoredSession[];
+  activeSessionId: string;
+}
+
+/**
+ * Restores sessions saved by `saveSessions`. Logs are not part of this
+ * snapshot; they come back separately from the IndexedDB log cache.
+ */
+export function loadSessions(): { sessions: LogSession[]; activeSessionId: string } | null {
+  const saved = localStorage.getItem(SESSIONS_KEY);
+  if (!saved) return null;
+  
+  try {
+    const { sessions, activeSessionId } = JSON.parse(saved) as StoredSessions;
+    if (!Array.isArray(sessions) || sessions.length === 0) return null;
+    
+    const authTokens = loadAuthTokens();
+    
+    return {
+      sessions: sessions.map(session => ({
+        ...session,
+        transport: session.transport ?? 'auto',
+        queryParams: session.queryParams ?? [],
+        auth: { ...DEFAULT_STREAM_AUTH, ...session.auth },
+        retention: session.retention ?? DEFAULT_RETENTION,
+        parser: { ...DEFAULT_PARSER_CONFIG, ...session.parser },
+        backfill: { ...DEFAULT_BACKFILL, ...session.backfill },
+        health: { ...DEFAULT_HEALTH_CHECK, ...session.health },
+        levelFilters: { ...DEFAULT_LEVEL_FILTERS, ...session.levelFilters },
+        searchTerm: session.searchTerm ?? '',
+        searchOptions: { ...DEFAULT_SEARCH_OPTIONS, ...session.searchOptions },
+        bookmarks: (session.bookmarks ?? []).map(bookmark => ({ ...bookmark, log: withLogId(bookmark.log) })),
+        authToken: authTokens[session.id],
+        logs: []
+      })),
+      // Fall back to the first tab if the active one wasn't saved
+      activeSessionId: sessions.some(session => session.id === activeSessionId) ? activeSessionId : sessions[0].id
+    };
+  } catch (e) {
+    console.error('Failed to parse saved sessions:', e);
+    return null;
+  }
+}
+
+let lastSaved: string | null = null;
+
+/**
+ * Saves session configuration. Sessions change on every log batch, so the
+ * write is skipped when nothing but the logs changed.
+ */
+export function saveSessions(sessions: LogSession[], activeSessionId: string) {
+  // Imported files aren't kept; they are opened again from disk
+  const liveSessions = sessions.filter(session => !session.file);
+  const stored: StoredSessions = {
+    sessions: liveSessions.map(({ logs, authToken, ...session }) => session),
+    activeSessionId: liveSessions.some(session => session.id === activeSessionId)
+      ? activeSessionId
+      : liveSessions[0]?.id
+  };
+  
+  // Auth tokens only live for the browser session and never touch localStorage
+  const authTokens: Record<string, string> = {};
+  sessions.forEach(session => {
+    if (session.authToken) {
+      authTokens[session.id] = session.authToken;
+    }
+  });
+  
+  const serialized = JSON.stringify(stored) + JSON.stringify(authTokens);
+  if (serialized === lastSaved) return;
+  lastSaved = serialized;
+  
+  localStorage.setItem(SESSIONS_KEY, JSON.stringify(stored));
+  sessionStorage.setItem(AUTH_TOKENS_KEY, JSON.stringify(authTokens));
+}
+
+function loadAuthTokens(): Record<string, string> {
+  try {
+    return JSON.parse(sessionStorage.getItem(AUTH_TOKENS_KEY) || '{}');
+  } catch {
+    return {};
+  }
+}
+
+const VIEW_OPTIONS_KEY = 'logViewOptions';
+
+export interface ViewOptions {
+  follow: boolean;
+  order: LogOrder;
+}
+
+const DEFAULT_VIEW_OPTIONS: ViewOptions = {
+  follow: true,
+  order: 'newest-first'
+};
+
+export function loadViewOptions(): ViewOptions {
+  try {
+    return { ...DEFAULT_VIEW_OPTIONS, ...JSON.parse(localStorage.getItem(VIEW_OPTIONS_KEY) || '{}') };
+  } catch (e) {
+    console.error('Failed to parse saved view options:', e);
+    return DEFAULT_VIEW_OPTIONS;
+  }
+}
+
+export function saveViewOptions(options: ViewOptions) {
+  localStorage.setItem(VIEW_OPTIONS_KEY, JSON.stringify(options));
+}
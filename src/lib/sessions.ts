@@ -0,0 +1,192 @@
+import { z } from 'zod';
+import { BackfillConfig, LogLevelFilter, LogSession } from '@/types/log';
+import { DEFAULT_RETENTION } from '@/lib/logRetention';
+import { DEFAULT_SEARCH_OPTIONS } from '@/lib/logQuery';
+import { DEFAULT_PARSER_CONFIG, validateLogPattern } from '@/lib/logParsers';
+import { resolveTransport } from '@/lib/transports';
+import { DEFAULT_HEALTH_CHECK } from '@/lib/connectionHealth';
+import { AUTH_METHODS, DEFAULT_STREAM_AUTH } from '@/lib/streamAuth';
+
+export const SESSION_COLORS = [
+  '#4FD1C5',
+  '#63B3ED',
+  '#B794F4',
+  '#F6AD55',
+  '#F687B3',
+  '#68D391',
+  '#FC8181',
+  '#A0AEC0'
+];
+
+export const DEFAULT_BACKFILL: BackfillConfig = {
+  historyUrl: '',
+  resumeParam: ''
+};
+
+export const DEFAULT_LEVEL_FILTERS: LogLevelFilter = {
+  INFO: true,
+  DEBUG: true,
+  WARNING: true,
+  ERROR: true
+};
+
+function isValidUrl(url: string) {
+  try {
+    new URL(url);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+// Blank number inputs mean "no limit"
+function optionalLimit(schema: z.ZodNumber) {
+  return z.preprocess(
+    value => value === '' || value === null || value === undefined ? null : Number(value),
+    schema.nullable()
+  );
+}
+
+export const sessionConfigSchema = z.object({
+  name: z.string().trim().min(1, 'Name is required').max(40, 'Name must be 40 characters or fewer'),
+  websocketUrl: z.string().trim().refine(isValidUrl, { message: 'Invalid URL' }),
+  transport: z.enum(['auto', 'websocket', 'sse', 'polling']),
+  color: z.string().regex(/^#[0-9a-f]{6}$/i, 'Pick a color'),
+  queryParams: z.array(z.object({
+    key: z.string().trim().min(1, 'Key is required'),
+    value: z.string()
+  })),
+  auth: z.object({
+    method: z.enum(['query', 'header', 'subprotocol', 'message']),
+    queryParam: z.string().trim(),
+    subprotocol: z.string().trim()
+  }).superRefine(({ method, queryParam, subprotocol }, ctx) => {
+    if (method === 'query' && !queryParam) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, message: 'Parameter name is required', path: ['queryParam'] });
+    }
+    // Subprotocols are HTTP tokens: no spaces or separators
+    if (method === 'subprotocol' && !/^[\w.!#$%&'*+^`|~-]+$/.test(subprotocol)) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, message: 'Enter a valid subprotocol name', path: ['subprotocol'] });
+    }
+  }),
+  authToken: z.string().trim().optional(),
+  retention: z.object({
+    maxEntries: optionalLimit(z.number().int().min(100, 'Keep at least 100 logs')),
+    maxAgeMinutes: optionalLimit(z.number().min(1, 'Keep at least 1 minute'))
+  }),
+  backfill: z.object({
+    historyUrl: z.string().trim().refine(
+      url => url === '' || (isValidUrl(url) && /^https?:\/\//.test(url)),
+      { message: 'History URL must be an http:// or https:// URL' }
+    ),
+    resumeParam: z.string().trim()
+  }),
+  health: z.object({
+    staleAfterSeconds: optionalLimit(z.number().int().min(1, 'At least 1 second')),
+    pingIntervalSeconds: optionalLimit(z.number().int().min(1, 'At least 1 second'))
+  }),
+  parser: z.object({
+    format: z.enum(['json', 'jsonl', 'logfmt', 'bunyan', 'python', 'regex']),
+    pattern: z.string()
+  }).superRefine(({ format, pattern }, ctx) => {
+    if (format !== 'regex') return;
+    const invalid = validateLogPattern(pattern);
+    if (invalid) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, message: invalid, path: ['pattern'] });
+    }
+  })
+}).superRefine(({ websocketUrl, transport, auth }, ctx) => {
+  const resolved = resolveTransport(websocketUrl.trim(), transport);
+  if (typeof resolved !== 'string') {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, message: resolved.error, path: ['websocketUrl'] });
+    return;
+  }
+  
+  const method = AUTH_METHODS.find(option => option.method === auth.method);
+  if (method && !method.transports.includes(resolved)) {
+    ctx.addIssue({
+      code: z.ZodIssueCode.custom,
+      message: `${method.label} can't be used with this transport`,
+      path: ['auth', 'method']
+    });
+  }
+});
+
+// Declared against LogSession rather than inferred: without strictNullChecks
+// zod infers every property as optional.
+export type SessionConfig = Pick<LogSession, 'name' | 'websocketUrl' | 'transport' | 'color' | 'queryParams' | 'auth' | 'authToken' | 'retention' | 'parser' | 'backfill' | 'health'>;
+
+export function getSessionConfig(session: LogSession): SessionConfig {
+  return {
+    name: session.name,
+    websocketUrl: session.websocketUrl,
+    transport: session.transport,
+    color: session.color,
+    queryParams: session.queryParams,
+    auth: session.auth,
+    authToken: session.authToken ?? '',
+    retention: session.retention,
+    parser: session.parser,
+    backfill: session.backfill,
+    health: session.health
+  };
+}
+
+export function defaultSessionConfig(sessions: LogSession[], websocketUrl: string): SessionConfig {
+  return {
+    name: `Session ${sessions.length + 1}`,
+    websocketUrl,
+    transport: 'auto',
+    color: nextSessionColor(sessions),
+    queryParams: [],
+    auth: DEFAULT_STREAM_AUTH,
+    authToken: '',
+    retention: DEFAULT_RETENTION,
+    parser: DEFAULT_PARSER_CONFIG,
+    backfill: DEFAULT_BACKFILL,
+    health: DEFAULT_HEALTH_CHECK
+  };
+}
+
+export function createSession(id: string, config: SessionConfig): LogSession {
+  return {
+    id,
+    ...config,
+    authToken: config.authToken || undefined,
+    levelFilters: DEFAULT_LEVEL_FILTERS,
+    searchTerm: '',
+    searchOptions: DEFAULT_SEARCH_OPTIONS,
+    bookmarks: [],
+    logs: []
+  };
+}
+
+// Picks the first palette color not already used by another session
+function nextSessionColor(sessions: LogSession[]) {
+  const used = new Set(sessions.map(session => session.color));
+  return SESSION_COLORS.find(color => !used.has(color)) ?? SESSION_COLORS[sessions.length % SESSION_COLORS.length];
+}
+
+/**
+ * Builds the URL a session actually connects to: its base stream URL
+ * plus any configured query params and, with query parameter auth, the
+ * auth token.
+ */
+export function buildSessionUrl(session: Pick<LogSession, 'websocketUrl' | 'queryParams' | 'auth' | 'authToken'>) {
+  const tokenParam = session.auth.method === 'query' && session.authToken ? session.auth.queryParam : null;
+  if (session.queryParams.length === 0 && !tokenParam) {
+    return session.websocketUrl;
+  }
+  
+  try {
+    const url = new URL(session.websocketUrl);
+    session.queryParams.forEach(({ key, value }) => url.searchParams.append(key, value));
+    if (tokenParam) {
+      url.searchParams.set(tokenParam, session.authToken);
+    }
+    return url.toString();
+  } catch {
+    // Let the connection report the invalid URL
+    return session.websocketUrl;
+  }
+}
@@ -0,0 +1,89 @@
+import { StreamAuthConfig, StreamAuthMethod, TransportKind } from '@/types/log';
+import { TransportAuth, TransportCloseInfo } from '@/lib/transports';
+
+/**
+ * How a session's auth token reaches the server. Browsers can't set
+ * headers on WebSocket or EventSource connections, so each transport only
+ * supports some of these.
+ */
+
+export const AUTH_METHODS: {
+  method: StreamAuthMethod;
+  label: string;
+  description: string;
+  transports: TransportKind[];
+}[] = [
+  {
+    method: 'query',
+    label: 'Query parameter',
+    description: 'Appended to the stream URL; works with every transport',
+    transports: ['websocket', 'sse', 'polling']
+  },
+  {
+    method: 'header',
+    label: 'Authorization header',
+    description: 'Sent as "Authorization: Bearer <token>"; HTTP polling only',
+    transports: ['polling']
+  },
+  {
+    method: 'subprotocol',
+    label: 'WebSocket subprotocol',
+    description: 'Sent in Sec-WebSocket-Protocol as the subprotocol followed by the token',
+    transports: ['websocket']
+  },
+  {
+    method: 'message',
+    label: 'First message',
+    description: 'Sends {"type":"auth","token":...} as soon as the WebSocket opens',
+    transports: ['websocket']
+  }
+];
+
+export const DEFAULT_STREAM_AUTH: StreamAuthConfig = {
+  method: 'query',
+  queryParam: 'token',
+  subprotocol: 'bearer'
+};
+
+// Close codes servers commonly use to turn away a client's credentials:
+// policy violation, and the 4xxx mirrors of HTTP 401 and 403
+const AUTH_CLOSE_CODES = [1008, 4001, 4003, 4401, 4403];
+
+export function isAuthFailure({ code, status }: TransportCloseInfo) {
+  return (code !== undefined && AUTH_CLOSE_CODES.includes(code)) || status === 401 || status === 403;
+}
+
+/**
+ * What the transport has to send to authenticate. Query parameter auth is
+ * part of the URL instead (see `buildSessionUrl`), so there is nothing here
+ * for it.
+ */
+export function getTransportAuth(auth: StreamAuthConfig, token: string | undefined): TransportAuth {
+  if (!token) return {};
+
+  switch (auth.method) {
+    case 'header':
+      return { headers: { Authorization: `Bearer ${token}` } };
+    case 'subprotocol':
+      return { protocols: [auth.subprotocol, token], headers: { Authorization: `Bearer ${token}` } };
+    case 'message':
+      return { firstMessage: JSON.stringify({ type: 'auth', token }), headers: { Authorization: `Bearer ${token}` } };
+    default:
+      return {};
+  }
+}
+
+/**
+ * `url` with its query values masked, for logging. The query method puts
+ * the token there, and the hook opening the stream doesn't know under
+ * which parameter.
+ */
+export function redactUrl(url: string) {
+  try {
+    const parsed = new URL(url);
+    new Set(parsed.searchParams.keys()).forEach(key => parsed.searchParams.set(key, '***'));
+    return parsed.toString();
+  } catch {
+    return '[invalid URL]';
+  }
+}
@@ -0,0 +1,221 @@
+import { TransportKind, TransportSetting } from '@/types/log';
+import { withQueryParam } from '@/lib/logGaps';
+
+/**
+ * The ways a session can receive frames. Every transport reports through
+ * the same handlers, so connection status, reconnects and parsing don't
+ * depend on which one is in use. Closing a transport yourself never calls
+ * `onClose`; that is only for the connection ending on its own.
+ */
+
+export interface TransportCloseInfo {
+  // WebSocket close code, when there is one
+  code?: number;
+  // HTTP status of a failed poll
+  status?: number;
+  message?: string;
+}
+
+export interface TransportHandlers {
+  onOpen: () => void;
+  onFrame: (data: string | ArrayBuffer) => void;
+  onError: (message: string) => void;
+  onClose: (info: TransportCloseInfo) => void;
+  // Polling only: the cursor of the newest log received (see getLogCursor),
+  // which each request asks for logs after
+  getCursor?: () => string | null;
+}
+
+// Credentials a transport sends on its own; see streamAuth
+export interface TransportAuth {
+  // WebSocket subprotocols, sent in Sec-WebSocket-Protocol
+  protocols?: string[];
+  // Sent with HTTP requests: polling, and backfills for sessions that
+  // don't put the token in the URL
+  headers?: Record<string, string>;
+  // Sent as soon as a WebSocket opens, before any logs are expected
+  firstMessage?: string;
+}
+
+export interface LogTransport {
+  close: () => void;
+  // Only transports with an upstream channel (WebSocket) can send
+  send?: (data: string) => void;
+}
+
+export const TRANSPORT_OPTIONS: { value: TransportSetting; label: string; description: string }[] = [
+  { value: 'auto', label: 'Auto', description: 'WebSocket for ws:// URLs, Server-Sent Events for http:// URLs' },
+  { value: 'websocket', label: 'WebSocket', description: 'Needs a ws:// or wss:// URL' },
+  { value: 'sse', label: 'Server-Sent Events', description: 'EventSource on an http:// or https:// URL' },
+  { value: 'polling', label: 'HTTP polling', description: 'Repeated GET requests for logs after the last one received; the server may hold each one open until logs arrive' }
+];
+
+// Wait after an empty poll response before asking again
+const POLL_IDLE_DELAY = 1000;
+
+// Polls start at least this far apart, however quickly the server answers
+const POLL_MIN_INTERVAL = 500;
+
+// Query parameter carrying the last log's cursor, as in backfill requests
+const POLL_CURSOR_PARAM = 'cursor';
+
+const isWebSocketUrl = (url: string) => url.startsWith('ws://') || url.startsWith('wss://');
+const isHttpUrl = (url: string) => url.startsWith('http://') || url.startsWith('https://');
+
+/**
+ * Picks the transport for a URL. Returns an error message when the URL's
+ * scheme doesn't suit the chosen transport.
+ */
+export function resolveTransport(url: string, setting: TransportSetting): TransportKind | { error: string } {
+  if (setting === 'auto') {
+    if (isWebSocketUrl(url)) return 'websocket';
+    if (isHttpUrl(url)) return 'sse';
+    return { error: 'URL must start with ws://, wss://, http:// or https://' };
+  }
+
+  if (setting === 'websocket' && !isWebSocketUrl(url)) {
+    return { error: 'WebSocket URL must start with ws:// or wss://' };
+  }
+  if (setting !== 'websocket' && !isHttpUrl(url)) {
+    return { error: 'URL must start with http:// or https://' };
+  }
+  return setting;
+}
+
+function openWebSocketTransport(url: string, handlers: TransportHandlers, auth: TransportAuth): LogTransport {
+  const socket = new WebSocket(url, auth.protocols);
+  socket.binaryType = 'arraybuffer';
+
+  socket.onopen = () => {
+    if (auth.firstMessage) {
+      socket.send(auth.firstMessage);
+    }
+    handlers.onOpen();
+  };
+  socket.onmessage = (event: MessageEvent<string | ArrayBuffer>) => handlers.onFrame(event.data);
+  socket.onerror = () => handlers.onError('Connection error. Server may be unavailable.');
+  socket.onclose = (event) => handlers.onClose({ code: event.code, message: event.reason || undefined });
+
+  return {
+    send: data => {
+      if (socket.readyState === WebSocket.OPEN) {
+        socket.send(data);
+      }
+    },
+    close: () => {
+      socket.onclose = null;
+      socket.onerror = null;
+      socket.onmessage = null;
+      socket.close();
+    }
+  };
+}
+
+function openEventSourceTransport(url: string, handlers: TransportHandlers): LogTransport {
+  const source = new EventSource(url);
+  const handleMessage = (event: MessageEvent<string>) => handlers.onFrame(event.data);
+
+  source.onopen = () => handlers.onOpen();
+  // Unnamed events and ones named `log` both carry frames
+  source.addEventListener('message', handleMessage);
+  source.addEventListener('log', handleMessage);
+  source.onerror = () => {
+    // EventSource would retry on its own schedule; hand over to ours instead
+    source.close();
+    handlers.onClose({ message: 'Event stream error' });
+  };
+
+  return {
+    close: () => {
+      source.onerror = null;
+      source.close();
+    }
+  };
+}
+
+/**
+ * Reads a response as binary when its content type says so (MessagePack,
+ * gzip), otherwise as text.
+ */
+export function readResponseBody(response: Response): Promise<string | ArrayBuffer> {
+  const contentType = response.headers.get('content-type') ?? '';
+  return /msgpack|octet-stream|gzip/.test(contentType) ? response.arrayBuffer() : response.text();
+}
+
+function openPollingTransport(url: string, handlers: TransportHandlers, auth: TransportAuth): LogTransport {
+  const controller = new AbortController();
+  const { signal } = controller;
+
+  const wait = (ms: number) => new Promise<void>(resolve => {
+    const onAbort = () => {
+      clearTimeout(timeout);
+      resolve();
+    };
+    const timeout = window.setTimeout(() => {
+      signal.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    signal.addEventListener('abort', onAbort, { once: true });
+  });
+
+  const poll = async () => {
+    let opened = false;
+
+    while (!signal.aborted) {
+      const startedAt = Date.now();
+      const cursor = handlers.getCursor?.();
+      const pollUrl = cursor ? withQueryParam(url, POLL_CURSOR_PARAM, cursor) : url;
+
+      let data: string | ArrayBuffer;
+      try {
+        const response = await fetch(pollUrl, { signal, cache: 'no-store', headers: auth.headers });
+        if (!response.ok) {
+          handlers.onClose({ status: response.status, message: `Request failed (HTTP ${response.status})` });
+          return;
+        }
+
+        data = await readResponseBody(response);
+      } catch (e) {
+        if (!signal.aborted) {
+          handlers.onClose({ message: `Request failed: ${(e as Error).message}` });
+        }
+        return;
+      }
+
+      if (!opened) {
+        opened = true;
+        handlers.onOpen();
+      }
+
+      const isEmpty = typeof data === 'string' ? !data.trim() : data.byteLength === 0;
+      if (isEmpty) {
+        await wait(POLL_IDLE_DELAY);
+      } else {
+        handlers.onFrame(data);
+        await wait(POLL_MIN_INTERVAL - (Date.now() - startedAt));
+      }
+    }
+  };
+
+  poll();
+
+  return {
+    close: () => controller.abort()
+  };
+}
+
+export function openTransport(
+  kind: TransportKind,
+  url: string,
+  handlers: TransportHandlers,
+  auth: TransportAuth = {}
+): LogTransport {
+  switch (kind) {
+    case 'sse':
+      return openEventSourceTransport(url, handlers);
+    case 'polling':
+      return openPollingTransport(url, handlers, auth);
+    default:
+      return openWebSocketTransport(url, handlers, auth);
+  }
+}
@@ -1,20 +1,197 @@
-
-export type LogLevel = 'INFO' | 'DEBUG' | 'WARNING' | 'ERROR';
+// Upper-case level name, e.g. INFO or TRACE; see lib/logLevels for the
+// known levels and how others are handled
+export type LogLevel = string;
 
 export interface LogMessage {
+  // Stable for as long as the log is kept; see getLogId
+  id: string;
   time: string;
   level: LogLevel;
   message: string;
   name: string;
   function: string;
   line: number;
+  // Any other fields the backend sent: request id, thread, hostname, ...
+  extra?: Record<string, unknown>;
 }
 
 export type LogLevelFilter = Record<LogLevel, boolean>;
 
+export interface SessionQueryParam {
+  key: string;
+  value: string;
+}
+
+// Limits on how many logs a session keeps in memory; null means unlimited
+export interface LogRetention {
+  maxEntries: number | null;
+  maxAgeMinutes: number | null;
+}
+
+export type LogFormat = 'json' | 'jsonl' | 'logfmt' | 'bunyan' | 'python' | 'regex';
+
+// How a session's frames are turned into logs; `pattern` is only used by
+// the regex format
+export interface LogParserConfig {
+  format: LogFormat;
+  pattern: string;
+}
+
+export type TransportKind = 'websocket' | 'sse' | 'polling';
+
+// 'auto' picks the transport from the URL scheme
+export type TransportSetting = TransportKind | 'auto';
+
+// How a session catches up after a dropped connection; blank strings
+// turn each option off
+export interface BackfillConfig {
+  // HTTP endpoint returning the logs in a time range
+  historyUrl: string;
+  // Query parameter carrying the last log's cursor when reconnecting
+  resumeParam: string;
+}
+
+// When a connection counts as stale, and the optional app-level ping used
+// to measure latency; null turns each off
+export interface HealthCheckConfig {
+  staleAfterSeconds: number | null;
+  // WebSocket only: sends {"type":"ping","id":n} and expects the server to
+  // echo {"type":"pong","id":n}
+  pingIntervalSeconds: number | null;
+}
+
+// Where the auth token goes; see AUTH_METHODS for which transports allow each
+export type StreamAuthMethod = 'query' | 'header' | 'subprotocol' | 'message';
+
+export interface StreamAuthConfig {
+  method: StreamAuthMethod;
+  // Query parameter carrying the token for the 'query' method
+  queryParam: string;
+  // Subprotocol offered ahead of the token for the 'subprotocol' method
+  subprotocol: string;
+}
+
+// A log pinned by the user, with an optional note. The log is kept here
+// too, so the bookmark outlives the log being evicted or cleared.
+export interface LogBookmark {
+  log: LogMessage;
+  note: string;
+  createdAt: string;
+}
+
+// The file an imported session's logs were read from
+export interface ImportedFile {
+  name: string;
+  size: number;
+}
+
 export interface LogSession {
   id: string;
   name: string;
+  // Stream URL; named from when WebSocket was the only transport
   websocketUrl: string;
+  transport: TransportSetting;
+  color: string;
+  queryParams: SessionQueryParam[];
+  auth: StreamAuthConfig;
+  // Kept in sessionStorage only, never with the rest of the session
+  authToken?: string;
+  retention: LogRetention;
+  parser: LogParserConfig;
+  backfill: BackfillConfig;
+  health: HealthCheckConfig;
+  levelFilters: LogLevelFilter;
+  searchTerm: string;
+  searchOptions: SearchOptions;
+  bookmarks: LogBookmark[];
   logs: LogMessage[];
+  // Set on sessions showing an imported file instead of a live stream
+  file?: ImportedFile;
+}
+
+export interface SearchOptions {
+  regex: boolean;
+  wholeWord: boolean;
+  caseSensitive: boolean;
+}
+
+export type LogOrder = 'newest-first' | 'newest-last';
+
+// 'unauthorized' is a connection the server turned away for its
+// credentials; it isn't retried until they change
+export type ConnectionStatus = 'connecting' | 'connected' | 'disconnected' | 'unauthorized';
+
+// A received frame that couldn't be turned into a log
+export interface MalformedFrame {
+  receivedAt: string;
+  error: string;
+  // The frame as received, truncated
+  frame: string;
+}
+
+// A reconnect waiting to happen: which attempt it is and when (epoch ms)
+export interface ScheduledRetry {
+  attempt: number;
+  at: number;
+}
+
+// A stretch of time the connection was down. `from` is the last log
+// received before the drop (or the drop itself), `to` the reconnect.
+export interface ConnectionGap {
+  id: number;
+  from: string;
+  to: string;
+  backfill: 'none' | 'loading' | 'done' | 'failed';
+  backfilledCount: number;
+}
+
+// A connection ending on its own, as recorded in the reconnect history
+export interface ConnectionCloseEvent {
+  at: string;
+  code?: number;
+  message?: string;
+}
+
+// Throughput and health of the current connection, sampled about once a second
+export interface ConnectionDiagnostics {
+  messagesPerSecond: number;
+  bytesPerSecond: number;
+  // Epoch ms of the last frame carrying logs
+  lastMessageAt: number | null;
+  latencyMs: number | null;
+  // Connected, but nothing has arrived for longer than the stale threshold
+  isStale: boolean;
+  // Newest first, capped
+  closes: ConnectionCloseEvent[];
+  // Logs received again with an id already seen, and dropped
+  duplicateCount: number;
+}
+
+export interface SessionConnectionState {
+  status: ConnectionStatus;
+  errorMessage?: string;
+  nextRetry: ScheduledRetry | null;
+  isPaused: boolean;
+  // Logs received while paused and not yet shown
+  bufferedCount: number;
+  unreadCount: number;
+  errorCount: number;
+  evictedCount: number;
+  gaps: ConnectionGap[];
+  malformedCount: number;
+  // The most recent malformed frames, newest first
+  malformedSamples: MalformedFrame[];
+  diagnostics: ConnectionDiagnostics;
+}
+
+export interface FileImportState {
+  status: 'importing' | 'done' | 'failed' | 'cancelled';
+  // Bytes of the file read so far; compressed bytes for a .gz file
+  bytesRead: number;
+  totalBytes: number;
+  logCount: number;
+  malformedCount: number;
+  // Records repeating an earlier one exactly, id included, which are skipped
+  duplicateCount: number;
+  error?: string;
 }
@@ -0,0 +1,167 @@
+/// <reference lib="webworker" />
+import { LogLevel, LogLevelFilter, LogMessage, SearchOptions } from '@/types/log';
+import { ParsedQuery, createLogPredicate, findMatches, parseQuery } from '@/lib/logQuery';
+
+/**
+ * Keeps a copy of the active session's logs off the main thread and
+ * maintains the filtered view, level counts and search matches
+ * incrementally: new logs are checked against the current filter as they
+ * arrive, and only a filter change re-evaluates everything.
+ *
+ * Logs are stored oldest first and identified by a sequence number that
+ * grows with each appended log, so evicting old logs doesn't renumber the
+ * rest.
+ */
+
+export type LogFilterRequest =
+  | { type: 'reset'; version: number; logs: LogMessage[] }
+  | { type: 'update'; version: number; added: LogMessage[]; removed: number }
+  | {
+      type: 'filter';
+      version: number;
+      levelFilters: LogLevelFilter;
+      searchTerm: string;
+      searchOptions: SearchOptions;
+    };
+
+export interface LogFilterResult {
+  version: number;
+  // Newest-first indexes into the logs as they were at `version`
+  filtered: Int32Array;
+  // Positions within `filtered` of the logs containing a search match
+  matches: Int32Array;
+  counts: Record<LogLevel, number>;
+}
+
+let logs: LogMessage[] = [];
+// Sequence number of logs[start]; entries before `start` have been evicted
+let firstSeq = 0;
+let start = 0;
+let filteredSeqs: number[] = [];
+let filteredStart = 0;
+let matchedSeqs = new Set<number>();
+let counts: Record<LogLevel, number> = {};
+
+let levelFilters: LogLevelFilter = {};
+let query: ParsedQuery = parseQuery('');
+
+const nextSeq = () => firstSeq + logs.length - start;
+
+// Evaluates logs (oldest first) appended at `fromSeq` against the current filter
+function evaluate(batch: LogMessage[], fromSeq: number) {
+  const predicate = createLogPredicate(levelFilters, query);
+  const passed: LogMessage[] = [];
+  const passedSeqs: number[] = [];
+
+  batch.forEach((log, i) => {
+    if (predicate(log)) {
+      passed.push(log);
+      passedSeqs.push(fromSeq + i);
+    }
+  });
+
+  // Looped rather than spread: a reset can carry more logs than the
+  // engine allows as call arguments
+  passedSeqs.forEach(seq => filteredSeqs.push(seq));
+  findMatches(passed, query).forEach(index => matchedSeqs.add(passedSeqs[index]));
+}
+
+function append(added: LogMessage[]) {
+  // `added` is newest first, like the session's logs
+  const batch = added.slice().reverse();
+  const fromSeq = nextSeq();
+
+  batch.forEach(log => {
+    logs.push(log);
+    counts[log.level] = (counts[log.level] ?? 0) + 1;
+  });
+  evaluate(batch, fromSeq);
+}
+
+function evict(count: number) {
+  const end = Math.min(start + count, logs.length);
+  for (let i = start; i < end; i++) {
+    const level = logs[i].level;
+    counts[level]--;
+    if (counts[level] === 0) delete counts[level];
+  }
+
+  firstSeq += end - start;
+  start = end;
+
+  while (filteredStart < filteredSeqs.length && filteredSeqs[filteredStart] < firstSeq) {
+    matchedSeqs.delete(filteredSeqs[filteredStart]);
+    filteredStart++;
+  }
+
+  // Drop evicted entries once they make up half the arrays
+  if (start > logs.length / 2) {
+    logs = logs.slice(start);
+    start = 0;
+  }
+  if (filteredStart > filteredSeqs.length / 2) {
+    filteredSeqs = filteredSeqs.slice(filteredStart);
+    filteredStart = 0;
+  }
+}
+
+function refilter() {
+  filteredSeqs = [];
+  filteredStart = 0;
+  matchedSeqs = new Set();
+  evaluate(logs.slice(start), firstSeq);
+}
+
+function postResult(version: number) {
+  const lastSeq = nextSeq() - 1;
+  const count = filteredSeqs.length - filteredStart;
+  const filtered = new Int32Array(count);
+  const matchPositions: number[] = [];
+
+  // Walk newest to oldest to produce newest-first indexes
+  for (let i = 0; i < count; i++) {
+    const seq = filteredSeqs[filteredSeqs.length - 1 - i];
+    filtered[i] = lastSeq - seq;
+    if (matchedSeqs.has(seq)) {
+      matchPositions.push(i);
+    }
+  }
+
+  const result: LogFilterResult = {
+    version,
+    filtered,
+    matches: Int32Array.from(matchPositions),
+    counts: { ...counts }
+  };
+  self.postMessage(result, [result.filtered.buffer, result.matches.buffer]);
+}
+
+self.onmessage = (event: MessageEvent<LogFilterRequest>) => {
+  const request = event.data;
+
+  switch (request.type) {
+    case 'reset':
+      logs = [];
+      firstSeq = 0;
+      start = 0;
+      counts = {};
+      filteredSeqs = [];
+      filteredStart = 0;
+      matchedSeqs = new Set();
+      append(request.logs);
+      break;
+    case 'update':
+      // Appending first keeps this right when a batch is larger than the
+      // retention limit and some of `added` was evicted straight away
+      append(request.added);
+      evict(request.removed);
+      break;
+    case 'filter':
+      levelFilters = request.levelFilters;
+      query = parseQuery(request.searchTerm, request.searchOptions);
+      refilter();
+      break;
+  }
+
+  postResult(request.version);
+};
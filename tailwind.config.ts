@@ -64,10 +64,14 @@ export default {
 					ring: 'hsl(var(--sidebar-ring))'
 				},
 				log: {
+					trace: '#A0AEC0',
 					info: '#4FD1C5',
 					debug: '#63B3ED',
+					success: '#68D391',
 					warning: '#F6AD55',
-					error: '#FC8181'
+					error: '#FC8181',
+					critical: '#F687B3',
+					fatal: '#B794F4'
 				}
 			},
 			borderRadius: {